@@ -3,6 +3,9 @@ import type { Config } from "jest"
 const config: Config = {
     testEnvironment: "node",
     testMatch: ["<rootDir>/tests/**/*.test.ts"],
+    moduleNameMapper: {
+        "^obsidian$": "<rootDir>/src/testing/obsidian.ts",
+    },
     transform: {
         "^.+\\.tsx?$": [
             "ts-jest",
@@ -1,22 +1,32 @@
 // main.ts - main entry point for Obsidian Kit plugin
 
-import { Plugin, App, Setting } from "obsidian"
+import { Plugin, App, Notice, Setting } from "obsidian"
 import { PluginConfig } from "../src/config.js"
-import { Logger, LogLevel } from "../src/logger.js"
+import { Logger, LogLevel, MemorySink } from "../src/logger.js"
+import { addShowLogsCommand, LogViewTabPage } from "../src/logview.js"
+import { ErrorHandler } from "../src/errors.js"
+import { DiagnosticsSetting } from "../src/diagnostics.js"
+import { bindLogFile, LogFileSetting, LogFileSettings } from "../src/filesink.js"
+import { addSwitchProfileCommand } from "../src/commands.js"
+import { buildSettingsPages, createFieldSetting, SettingsSchema } from "../src/schema.js"
 import {
     SettingsTabPage,
     PluginSettingsTab,
-    ToggleSetting,
-    TextInputSetting,
     SliderSetting,
-    DropdownSetting,
+    SettingsTransferSetting,
+    ProfileSetting,
+    SettingsHistoryView,
 } from "../src/settings.js"
 
 interface ExamplePluginSettings {
+    [key: string]: unknown
     enableFeature: boolean
     displayName: string
+    apiToken: string
     refreshInterval: number
     logLevel: LogLevel
+    logLevels: Record<string, LogLevel>
+    logFile: LogFileSettings
     theme: string
     autoSave: boolean
     maxItems: number
@@ -25,8 +35,11 @@ interface ExamplePluginSettings {
 const DEFAULT_SETTINGS: ExamplePluginSettings = {
     enableFeature: true,
     displayName: "",
+    apiToken: "",
     refreshInterval: 30,
     logLevel: LogLevel.INFO,
+    logLevels: {},
+    logFile: { enabled: false, path: "" },
     theme: "default",
     autoSave: false,
     maxItems: 100,
@@ -42,41 +55,77 @@ const config = new PluginConfig<ExamplePluginSettings>({
                 delete data.userName
             }
         },
+        // later migrations are named, so they are tracked by id
+        {
+            id: "replace-system-theme",
+            description: "replaced the removed system theme with the default theme",
+            migrate: data => {
+                if (data.theme === "system") {
+                    data.theme = "default"
+                }
+            },
+        },
     ],
+    saveDelay: 500,
+    sparse: true,
+    local: ["refreshInterval", "logFile"],
+    secrets: ["apiToken"],
+    logLevels: "logLevels",
+    onFutureVersion: () => {
+        new Notice("Settings were saved by a newer version of this plugin; changes will not be saved.")
+    },
+    validators: {
+        refreshInterval: value => typeof value === "number" && value >= 5 && value <= 300,
+    },
 })
 
+// recent log records, for the log viewer
+const logBuffer = new MemorySink(500)
+
 /**
  * Example plugin class
  */
 export default class ExamplePlugin extends Plugin {
     settings: ExamplePluginSettings
+    settingsTab: ExampleSettingsTab
 
     private logger: Logger = Logger.getLogger("main")
 
     async onload() {
+        new ErrorHandler().install(this)
+        this.register(Logger.addSink(logBuffer))
+
         await this.loadSettings()
 
-        this.addSettingTab(new ExampleSettingsTab(this.app, this))
+        Logger.setGlobalLogLevel(this.settings.logLevel)
+        config.store.subscribe("logLevel", level => Logger.setGlobalLogLevel(level), this)
+        bindLogFile(this, config, "logFile")
+
+        this.settingsTab = new ExampleSettingsTab(this.app, this)
+        this.addSettingTab(this.settingsTab)
+        config.onExternalChange(() => this.settingsTab.refresh(), this)
+
+        addSwitchProfileCommand(this, config)
+        addShowLogsCommand(this, { sink: logBuffer })
 
         this.logger.info("Plugin loaded")
     }
 
     async onunload() {
+        await config.flush()
         this.logger.info("Plugin unloaded")
     }
 
+    async onExternalSettingsChange() {
+        await config.handleExternalChange(this)
+    }
+
     async loadSettings() {
-        this.settings = await config.load(this)
-        this.applySettings()
+        this.settings = await this.logger.span("Load settings", () => config.load(this))
     }
 
     async saveSettings() {
         await config.save(this, this.settings)
-        this.applySettings()
-    }
-
-    private applySettings() {
-        Logger.setGlobalLogLevel(this.settings.logLevel)
     }
 }
 
@@ -85,61 +134,8 @@ export default class ExamplePlugin extends Plugin {
 // ============================================================================
 
 /**
- * Toggle setting for enabling/disabling features.
- */
-class EnableFeatureSetting extends ToggleSetting {
-    constructor(private plugin: ExamplePlugin) {
-        super({
-            name: "Enable Feature",
-            description: "Enable or disable the main feature of this plugin.",
-        })
-    }
-
-    get value(): boolean {
-        return this.plugin.settings.enableFeature
-    }
-
-    set value(val: boolean) {
-        this.plugin.settings.enableFeature = val
-        this.plugin.saveSettings()
-    }
-
-    get default(): boolean {
-        return true
-    }
-}
-
-/**
- * Text input setting for display name.
- */
-class DisplayNameSetting extends TextInputSetting {
-    constructor(private plugin: ExamplePlugin) {
-        super({
-            name: "Display Name",
-            description: "Enter your display name for personalized features.",
-        })
-    }
-
-    get value(): string {
-        return this.plugin.settings.displayName
-    }
-
-    set value(val: string) {
-        this.plugin.settings.displayName = val
-        this.plugin.saveSettings()
-    }
-
-    get default(): string {
-        return ""
-    }
-
-    get placeholder(): string {
-        return "Enter your display name..."
-    }
-}
-
-/**
- * Slider setting for refresh interval.
+ * Slider setting for refresh interval, written by hand to show that custom
+ * settings can be mixed in with schema fields.
  */
 class RefreshIntervalSetting extends SliderSetting {
     constructor(private plugin: ExamplePlugin) {
@@ -155,7 +151,6 @@ class RefreshIntervalSetting extends SliderSetting {
 
     set value(val: number) {
         this.plugin.settings.refreshInterval = val
-        this.plugin.saveSettings()
     }
 
     get default(): number {
@@ -175,169 +170,81 @@ class RefreshIntervalSetting extends SliderSetting {
     }
 }
 
-/**
- * Dropdown setting for themes.
- */
-class ThemeSetting extends DropdownSetting<string> {
-    constructor(private plugin: ExamplePlugin) {
-        super({
-            name: "Theme",
-            description: "Choose your preferred theme.",
-        })
-    }
-
-    get value(): string {
-        return this.plugin.settings.theme
-    }
-
-    set value(val: string) {
-        this.plugin.settings.theme = val
-        this.plugin.saveSettings()
-    }
-
-    get default(): string {
-        return "default"
-    }
-
-    get options(): { key: string; label: string; value: string }[] {
-        return [
-            { key: "default", label: "Default", value: "default" },
-            { key: "dark", label: "Dark", value: "dark" },
-            { key: "light", label: "Light", value: "light" },
-            { key: "custom", label: "Custom", value: "custom" },
-        ]
-    }
-}
-
-/**
- * Toggle setting for auto-save.
- */
-class AutoSaveSetting extends ToggleSetting {
-    constructor(private plugin: ExamplePlugin) {
-        super({
-            name: "Auto Save",
-            description: "Automatically save changes without prompting.",
-        })
-    }
-
-    get value(): boolean {
-        return this.plugin.settings.autoSave
-    }
-
-    set value(val: boolean) {
-        this.plugin.settings.autoSave = val
-        this.plugin.saveSettings()
-    }
-
-    get default(): boolean {
-        return false
-    }
-}
-
-/**
- * Slider setting for maximum items.
- */
-class MaxItemsSetting extends SliderSetting {
-    constructor(private plugin: ExamplePlugin) {
-        super({
-            name: "Maximum Items",
-            description: "Set the maximum number of items to display.",
-        })
-    }
-
-    get value(): number {
-        return this.plugin.settings.maxItems
-    }
-
-    set value(val: number) {
-        this.plugin.settings.maxItems = val
-        this.plugin.saveSettings()
-    }
-
-    get default(): number {
-        return 100
-    }
-
-    get minimum(): number {
-        return 10
-    }
-
-    get maximum(): number {
-        return 1000
-    }
-
-    get step(): number {
-        return 10
-    }
-}
-
-/**
- * Dropdown setting for log levels.
- */
-class LogLevelSetting extends DropdownSetting<LogLevel> {
-    constructor(private plugin: ExamplePlugin) {
-        super({
-            name: "Log Level",
-            description: "Set the logging level for console output.",
-        })
-    }
-
-    get value(): LogLevel {
-        return this.plugin.settings.logLevel
-    }
-
-    set value(val: LogLevel) {
-        this.plugin.settings.logLevel = val
-        this.plugin.saveSettings()
-    }
-
-    get default(): LogLevel {
-        return LogLevel.INFO
-    }
-
-    get options(): { key: string; label: string; value: LogLevel }[] {
-        return [
-            { key: "debug", label: "Debug", value: LogLevel.DEBUG },
-            { key: "info", label: "Info", value: LogLevel.INFO },
-            { key: "warn", label: "Warn", value: LogLevel.WARN },
-            { key: "error", label: "Error", value: LogLevel.ERROR },
-            { key: "silent", label: "Silent", value: LogLevel.SILENT },
-        ]
-    }
-}
-
 // ============================================================================
 // SETTINGS PAGES
 // ============================================================================
 
 /**
- * General settings page with basic configuration options.
+ * Settings pages described by a schema; obskit builds the controls and binds
+ * them to the config.
  */
-class GeneralSettings extends SettingsTabPage {
-    constructor(private plugin: ExamplePlugin) {
-        super("General")
-    }
-
-    display(containerEl: HTMLElement): void {
-        new EnableFeatureSetting(this.plugin).display(containerEl)
-        new DisplayNameSetting(this.plugin).display(containerEl)
-        new ThemeSetting(this.plugin).display(containerEl)
-    }
-}
-
-/**
- * Performance settings page with performance-related options.
- */
-class PerformanceSettings extends SettingsTabPage {
-    constructor(private plugin: ExamplePlugin) {
-        super("Performance")
-    }
-
-    display(containerEl: HTMLElement): void {
-        new RefreshIntervalSetting(this.plugin).display(containerEl)
-        new MaxItemsSetting(this.plugin).display(containerEl)
-        new AutoSaveSetting(this.plugin).display(containerEl)
-    }
+function settingsSchema(plugin: ExamplePlugin): SettingsSchema<ExamplePluginSettings> {
+    return [
+        {
+            name: "General",
+            settings: [
+                new ProfileSetting({
+                    app: plugin.app,
+                    config,
+                    onChange: () => plugin.settingsTab.refresh(),
+                }),
+                {
+                    type: "toggle",
+                    path: "enableFeature",
+                    name: "Enable Feature",
+                    description: "Enable or disable the main feature of this plugin.",
+                },
+                {
+                    type: "text",
+                    path: "displayName",
+                    name: "Display Name",
+                    description: "Enter your display name for personalized features.",
+                    placeholder: "Enter your display name...",
+                },
+                {
+                    type: "secret",
+                    path: "apiToken",
+                    name: "API Token",
+                    description: "Token used to access the example service; never synced or exported.",
+                },
+                {
+                    type: "dropdown",
+                    path: "theme",
+                    name: "Theme",
+                    description: "Choose your preferred theme.",
+                    options: [
+                        { value: "default", label: "Default" },
+                        { value: "dark", label: "Dark" },
+                        { value: "light", label: "Light" },
+                        { value: "custom", label: "Custom" },
+                    ],
+                },
+            ],
+        },
+        {
+            name: "Performance",
+            settings: [
+                new RefreshIntervalSetting(plugin).onChange(() => plugin.saveSettings()),
+                {
+                    type: "slider",
+                    path: "maxItems",
+                    name: "Maximum Items",
+                    description: "Set the maximum number of items to display.",
+                    min: 10,
+                    max: 1000,
+                    step: 10,
+                },
+                {
+                    type: "toggle",
+                    path: "autoSave",
+                    name: "Auto Save",
+                    description: "Automatically save changes without prompting.",
+                },
+            ],
+        },
+        new AdvancedSettings(plugin),
+        new LogViewTabPage({ sink: logBuffer }),
+    ]
 }
 
 /**
@@ -349,8 +256,27 @@ class AdvancedSettings extends SettingsTabPage {
     }
 
     display(containerEl: HTMLElement): void {
-        // Add standard settings
-        new LogLevelSetting(this.plugin).display(containerEl)
+        // Schema fields can also be created on their own
+        createFieldSetting(config, {
+            type: "dropdown",
+            path: "logLevel",
+            name: "Log Level",
+            description: "Set the logging level for console output.",
+            options: [
+                { value: LogLevel.DEBUG, label: "Debug" },
+                { value: LogLevel.INFO, label: "Info" },
+                { value: LogLevel.WARN, label: "Warn" },
+                { value: LogLevel.ERROR, label: "Error" },
+                { value: LogLevel.SILENT, label: "Silent" },
+            ],
+        }).display(containerEl)
+        new LogFileSetting({ plugin: this.plugin, config, path: "logFile" }).display(containerEl)
+
+        new SettingsTransferSetting({ plugin: this.plugin, config }).display(containerEl)
+
+        new DiagnosticsSetting({ plugin: this.plugin, config, sink: logBuffer }).display(
+            containerEl
+        )
 
         // Custom settings are still supported
         new Setting(containerEl)
@@ -361,11 +287,17 @@ class AdvancedSettings extends SettingsTabPage {
                 button.setWarning()
                 button.onClick(async () => {
                     if (confirm("Are you sure you want to reset all settings?")) {
-                        this.plugin.settings = Object.assign({}, DEFAULT_SETTINGS)
-                        this.plugin.saveSettings()
+                        await config.reset()
+                        this.plugin.settingsTab.refresh()
                     }
                 })
             })
+
+        // Reset and other changes can be undone from here
+        new SettingsHistoryView({
+            config,
+            onChange: () => this.plugin.settingsTab.refresh(),
+        }).display(containerEl)
     }
 
     onActivate(): void {
@@ -388,15 +320,10 @@ export class ExampleSettingsTab extends PluginSettingsTab {
     constructor(app: App, plugin: ExamplePlugin) {
         super(app, plugin)
 
-        this.addTabs([
-            new GeneralSettings(plugin),
-            new PerformanceSettings(plugin),
-            new AdvancedSettings(plugin),
-        ])
+        this.addTabs(buildSettingsPages(config, settingsSchema(plugin)))
 
         // Alternative: Add tabs individually using method chaining
-        // this.addTab(new GeneralSettings(this.examplePlugin))
-        //     .addTab(new PerformanceSettings(this.examplePlugin))
-        //     .addTab(new AdvancedSettings(this.examplePlugin))
+        // this.addTab(new AdvancedSettings(plugin))
+        //     .addTab(new LogViewTabPage({ sink: logBuffer }))
     }
 }
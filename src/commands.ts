@@ -0,0 +1,56 @@
+import { App, FuzzySuggestModal, Notice, Plugin } from "obsidian"
+
+import { PluginConfig } from "./config"
+import { Logger } from "./logger"
+
+/**
+ * Register a command-palette command for switching settings profiles.
+ */
+export function addSwitchProfileCommand<T extends Record<string, unknown>>(
+    plugin: Plugin,
+    config: PluginConfig<T>
+): void {
+    plugin.addCommand({
+        id: "switch-profile",
+        name: "Switch settings profile",
+        callback: () => {
+            new ProfileSuggestModal(plugin.app, config).open()
+        },
+    })
+}
+
+/**
+ * Suggest modal listing the available settings profiles.
+ */
+class ProfileSuggestModal<T extends Record<string, unknown>> extends FuzzySuggestModal<
+    string | null
+> {
+    private config: PluginConfig<T>
+
+    private logger: Logger = Logger.getLogger("commands")
+
+    constructor(app: App, config: PluginConfig<T>) {
+        super(app)
+        this.config = config
+        this.setPlaceholder("Select a profile...")
+    }
+
+    getItems(): (string | null)[] {
+        return [null, ...this.config.profiles]
+    }
+
+    getItemText(item: string | null): string {
+        const label = item ?? "Default"
+        return item === this.config.activeProfile ? `${label} (active)` : label
+    }
+
+    onChooseItem(item: string | null): void {
+        this.config
+            .switchProfile(item)
+            .then(() => new Notice(`Switched to profile: ${item ?? "Default"}`))
+            .catch(err => {
+                this.logger.error("Failed to switch profile", err)
+                new Notice(`Failed to switch profile: ${err instanceof Error ? err.message : err}`)
+            })
+    }
+}
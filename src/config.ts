@@ -1,99 +1,1357 @@
-import { Plugin } from "obsidian"
+import { Component, Plugin } from "obsidian"
 
-import { Logger } from "./logger"
+import { HistoryOptions, SettingsHistory } from "./history"
+import { Logger, LogLevel } from "./logger"
+import { deepEqual, isPlainObject } from "./objects"
+import {
+    deletePath,
+    getPath,
+    hasPath,
+    leafPaths,
+    Path,
+    pathsOverlap,
+    PathValue,
+    setPath,
+} from "./paths"
+import { ProfileSet } from "./profiles"
+import { SaveScheduler } from "./scheduler"
+import { SettingsChange, SettingsStore } from "./store"
+import { validateSettings, ValidationReport, Validators } from "./validation"
 
 const VERSION_KEY = "__obskit_config_version__"
+const APPLIED_KEY = "__obskit_migrations__"
+const ARRAYS_KEY = "__obskit_array_defaults__"
+const PROFILES_KEY = "__obskit_profiles__"
+const EXPORT_FORMAT = "obskit-settings"
+const LOCAL_STORAGE_KEY = "obskit-local-settings"
+const SECRETS_STORAGE_KEY = "obskit-secrets"
 
-/** Migration function that mutates raw settings data in place. */
-export type Migration = (data: Record<string, unknown>) => void
+/** Migration function that mutates raw settings data in place; may be async. */
+export type Migration = (data: Record<string, unknown>) => void | Promise<void>
+
+/**
+ * Migration with a stable identifier.
+ *
+ * Named migrations are tracked by id rather than by position, so they may be
+ * reordered or removed without affecting which ones have already run. They
+ * do not count towards the numeric settings version.
+ *
+ * Never convert an existing unnamed migration into a named one: the stored
+ * version would then exceed the number of unnamed migrations, and the
+ * settings would be treated as written by a newer plugin version. Keep
+ * existing migrations as they are and add named ones after them.
+ */
+export interface NamedMigration {
+    /** Stable, unique identifier recorded in `data.json` once applied. */
+    id: string
+    /** Optional description used in log messages. */
+    description?: string
+    /** The migration to run. */
+    migrate: Migration
+}
+
+/**
+ * Raised when a migration fails. The stored settings are left untouched.
+ */
+export class MigrationError extends Error {
+    /** Index of the migration that failed. */
+    readonly step: number
+    /** Id of the migration that failed, if it is a named migration. */
+    readonly id: string | undefined
+    /** The error thrown by the migration. */
+    readonly cause: unknown
+
+    constructor(step: number, cause: unknown, id?: string) {
+        const reason = cause instanceof Error ? cause.message : String(cause)
+        super(`Migration ${id ?? step} failed: ${reason}`)
+        this.name = "MigrationError"
+        this.step = step
+        this.id = id
+        this.cause = cause
+    }
+}
+
+/**
+ * Raised by `save()` when migrated settings cannot be saved because the
+ * backup of the original data could not be written. Saves are retried, with
+ * the backup, on the next call.
+ */
+export class BackupError extends Error {
+    constructor() {
+        super("Failed to write settings backup; migrated settings not saved")
+        this.name = "BackupError"
+    }
+}
+
+/**
+ * Raised by `save()` when the stored settings were written by a newer version
+ * of the plugin and the `refuse` policy is in effect.
+ */
+export class FutureVersionError extends Error {
+    readonly storedVersion: number
+    readonly currentVersion: number
+
+    constructor(storedVersion: number, currentVersion: number) {
+        super(
+            `Settings were saved by a newer plugin version (${storedVersion} > ${currentVersion}); refusing to save`
+        )
+        this.name = "FutureVersionError"
+        this.storedVersion = storedVersion
+        this.currentVersion = currentVersion
+    }
+}
+
+/**
+ * How to handle stored settings written by a newer version of the plugin.
+ *
+ * - `readonly`: load normally, but silently skip all saves
+ * - `refuse`: load normally, but reject saves with a `FutureVersionError`
+ * - `warn`: log a warning and save normally, preserving the newer version number
+ */
+export type FutureVersionPolicy = "readonly" | "refuse" | "warn"
+
+/** Details passed to the `onFutureVersion` callback. */
+export interface FutureVersionInfo {
+    /** Version recorded in the stored settings. */
+    storedVersion: number
+    /** Version known to this build of the plugin. */
+    currentVersion: number
+    /** Recorded migration ids that this build of the plugin does not know about. */
+    unknownMigrations: string[]
+    /** The policy in effect. */
+    policy: FutureVersionPolicy
+}
+
+/** Document produced by `PluginConfig.exportSettings()`. */
+export interface SettingsExport {
+    /** Identifies the document as exported obskit settings. */
+    format: typeof EXPORT_FORMAT
+    /** Migration version of the exported settings. */
+    version: number
+    /** Ids of named migrations applied to the exported settings. */
+    migrations: string[]
+    /** ISO timestamp of the export. */
+    exported: string
+    /** Keys of the default array items known at export, by path (see `MergeOptions.seen`). */
+    arrays?: Record<string, string[]>
+    /** The exported settings. */
+    settings: Record<string, unknown>
+}
+
+/** Result of `PluginConfig.importSettings()`. */
+export interface ImportResult<T> {
+    /** The imported settings, migrated and merged with defaults. */
+    settings: T
+    /** Validation report for the imported values. */
+    validation: ValidationReport
+    /** Paths in the imported data that are not known settings; these are discarded. */
+    unknownKeys: string[]
+    /** Paths in the imported data that were removed by migrations. */
+    droppedKeys: string[]
+}
+
+/** Details of settings reloaded after an external change to `data.json`. */
+export interface ExternalChange {
+    /** Values that changed in the current settings. */
+    changes: SettingsChange[]
+    /** Paths changed both locally and externally; the external value was kept. */
+    conflicts: string[]
+}
+
+/** Result of running migrations against raw settings data. */
+interface MigrationOutcome {
+    /** True if any migrations ran. */
+    migrated: boolean
+    /** Version number recorded in the data. */
+    storedVersion: number
+    /** True if the data was written by a newer plugin version. */
+    newer: boolean
+    /** Ids of all applied named migrations, including unknown ones. */
+    applied: string[]
+    /** Recorded migration ids that this build does not know about. */
+    unknown: string[]
+}
 
 /** Options for creating a PluginConfig. */
 export interface PluginConfigOptions<T> {
     /** The full default settings object. */
     defaults: T
-    /** Optional ordered migration functions for breaking schema changes. */
-    migrations?: Migration[]
+    /** Optional ordered migrations for breaking schema changes. */
+    migrations?: (Migration | NamedMigration)[]
+    /** Optional validators keyed by dotted path; invalid values revert to defaults. */
+    validators?: Validators
+    /** Check loaded values against the types of their defaults (default: true). */
+    inferTypes?: boolean
+    /** Debounce delay in milliseconds for `save()` (default: 0, save immediately). */
+    saveDelay?: number
+    /** Write a timestamped backup of `data.json` before persisting migrations (default: true). */
+    backup?: boolean
+    /** Only persist values that differ from `defaults` (default: false). */
+    sparse?: boolean
+    /** Array merge strategies keyed by dotted path; arrays are replaced by default. */
+    arrays?: Record<string, ArrayStrategy>
+    /** Dotted paths of device-local settings, stored outside `data.json` so they do not sync. */
+    local?: string[]
+    /**
+     * Dotted paths of secret string settings (e.g. API tokens). Secrets are
+     * kept in Obsidian's secret storage instead of `data.json`, left out of
+     * exports, and redacted from log output.
+     */
+    secrets?: string[]
+    /**
+     * Dotted path of a `Record<string, LogLevel>` setting holding per-logger
+     * level overrides. The overrides are applied on load and kept in sync
+     * with `Logger.setLogLevel()` in both directions.
+     */
+    logLevels?: string
+    /** Limits for the undo/redo history of saved changes. */
+    history?: HistoryOptions
+    /** Policy for settings written by a newer plugin version (default: `readonly`). */
+    futureVersionPolicy?: FutureVersionPolicy
+    /** Called when loaded settings were written by a newer plugin version. */
+    onFutureVersion?: (info: FutureVersionInfo) => void
 }
 
-/**
- * Manages plugin settings with automatic deep merging and versioned migrations.
- */
-export class PluginConfig<T extends Record<string, unknown>> {
-    private defaults: T
-    private migrations: Migration[]
-    private logger: Logger = Logger.getLogger("config")
+/**
+ * Manages plugin settings with automatic deep merging and versioned migrations.
+ */
+export class PluginConfig<T extends Record<string, unknown>> {
+    private defaults: T
+    private migrations: (Migration | NamedMigration)[]
+    private validators: Validators
+    private inferTypes: boolean
+    private backup: boolean
+    private sparse: boolean
+    private arrays: Record<string, ArrayStrategy>
+    private local: string[]
+    private secrets: string[]
+    private removeRedactor: (() => void) | null = null
+    private logLevels: string | undefined
+    private logLevelsBound: boolean = false
+    private futureVersionPolicy: FutureVersionPolicy
+    private onFutureVersion: ((info: FutureVersionInfo) => void) | undefined
+    private _futureVersion: FutureVersionInfo | null = null
+    private version: number
+    private appliedMigrations: string[] = []
+    private _validation: ValidationReport = { valid: true, issues: [] }
+    private _store: SettingsStore<T>
+    private _history: SettingsHistory
+    private scheduler: SaveScheduler
+    private pendingSave: { plugin: Plugin; settings: T } | null = null
+    /** Original data of migrated settings that has not been backed up yet. */
+    private pendingBackup: Record<string, unknown> | null = null
+    private lastPersisted: T | null = null
+    private plugin: Plugin | null = null
+    private base: T
+    private profileSet: ProfileSet = new ProfileSet()
+    private externalListeners: Set<(event: ExternalChange) => void> = new Set()
+    private logger: Logger = Logger.getLogger("config")
+
+    constructor(options: PluginConfigOptions<T>) {
+        this.defaults = options.defaults
+        this.migrations = options.migrations ?? []
+        this.checkMigrationIds()
+        this.validators = options.validators ?? {}
+        this.inferTypes = options.inferTypes ?? true
+        this.backup = options.backup ?? true
+        this.sparse = options.sparse ?? false
+        this.arrays = options.arrays ?? {}
+        this.local = options.local ?? []
+        this.secrets = options.secrets ?? []
+        this.logLevels = options.logLevels
+        this.futureVersionPolicy = options.futureVersionPolicy ?? "readonly"
+        this.onFutureVersion = options.onFutureVersion
+        this.version = this.currentVersion
+        this.base = structuredClone(options.defaults)
+        this._store = new SettingsStore(structuredClone(options.defaults))
+        this._history = new SettingsHistory(options.history)
+        this.scheduler = new SaveScheduler(() => this.writePending(), options.saveDelay ?? 0)
+    }
+
+    /**
+     * Observable store holding the most recently loaded or saved settings.
+     */
+    get store(): SettingsStore<T> {
+        return this._store
+    }
+
+    /**
+     * Undo/redo history of changes made through `save()`.
+     */
+    get history(): SettingsHistory {
+        return this._history
+    }
+
+    /**
+     * The validation report from the most recent load.
+     */
+    get validation(): ValidationReport {
+        return this._validation
+    }
+
+    /**
+     * Details about stored settings from a newer plugin version, or `null`.
+     */
+    get futureVersion(): FutureVersionInfo | null {
+        return this._futureVersion
+    }
+
+    /**
+     * True if saves are being skipped because of a newer stored version.
+     */
+    get readOnly(): boolean {
+        return this._futureVersion?.policy === "readonly"
+    }
+
+    /**
+     * The current settings version, i.e. the number of unnamed migrations.
+     */
+    get settingsVersion(): number {
+        return this.version
+    }
+
+    /**
+     * IDs of the named migrations that have been applied to the stored settings.
+     */
+    get appliedMigrationIds(): string[] {
+        return [...this.appliedMigrations]
+    }
+
+    /**
+     * Load settings from the plugin's data store.
+     *
+     * Runs pending migrations, deep merges with defaults, replaces invalid
+     * values with their defaults, and optionally saves back if migrations
+     * were applied.
+     *
+     * Migrations run against a copy of the stored data. If one fails, a
+     * `MigrationError` is thrown and nothing is written; otherwise a backup of
+     * the original data is written before the migrated settings are saved.
+     * If the backup fails, later saves are rejected with a `BackupError` until
+     * it can be written.
+     */
+    async load(plugin: Plugin): Promise<T> {
+        this.plugin = plugin
+
+        if (this.secrets.length > 0 && !this.removeRedactor) {
+            const remove = Logger.addRedactor(() => this.secretValues())
+            this.removeRedactor = remove
+            plugin.register(() => {
+                remove()
+                this.removeRedactor = null
+            })
+        }
+
+        const { raw, result, migrated } = await this.read(plugin)
+
+        // Save back if migrations ran or first run; migrated data is only saved after a backup,
+        // and never when the future version policy forbids saving
+        const policy = this._futureVersion?.policy ?? "warn"
+        if (policy === "warn" && (raw === null || (migrated && (await this.writeBackup(plugin))))) {
+            await plugin.saveData(this.withMetadata(result))
+            this.writeLocal(plugin, result)
+            this.writeSecrets(plugin, result)
+            this.logger.debug(`Settings saved (version ${this.version})`)
+        }
+
+        this.lastPersisted = structuredClone(result)
+        this._store.update(result)
+
+        this.bindLogLevels(plugin)
+
+        return result
+    }
+
+    /**
+     * Reload settings after `data.json` was changed outside of Obsidian.
+     *
+     * Call this from the plugin's `onExternalSettingsChange`. The new data is
+     * migrated and merged with defaults as in `load()`, then three-way merged
+     * with the current settings using the last loaded or saved settings as
+     * the common base: values changed on only one side are kept, and
+     * conflicting values take the external version. The current settings
+     * object is updated in place, so existing references stay valid.
+     * Local changes not present externally are saved back.
+     */
+    async handleExternalChange(plugin: Plugin): Promise<ExternalChange> {
+        const { result: remote } = await this.read(plugin)
+
+        const base = this.lastPersisted ?? structuredClone(this.defaults)
+        const local = this._store.value
+        const { merged, conflicts } = threeWayMerge(base, local, remote)
+
+        for (const path of conflicts) {
+            this.logger.warn(`Conflicting external change to '${path}'; using external value`)
+        }
+
+        this.lastPersisted = structuredClone(remote)
+
+        replaceContents(local, merged)
+        const changes = this._store.update()
+
+        const event: ExternalChange = { changes, conflicts }
+
+        if (changes.length > 0) {
+            this.logger.info(`Settings changed externally: ${changes.map(c => c.path).join(", ")}`)
+            for (const listener of [...this.externalListeners]) {
+                listener(event)
+            }
+        }
+
+        if (!deepEqual(merged, remote)) {
+            await this.save(plugin, local)
+        }
+
+        return event
+    }
+
+    /**
+     * Listen for settings reloaded by `handleExternalChange()`.
+     *
+     * If a component is given, the listener is removed when it unloads.
+     * Returns a function that removes the listener.
+     */
+    onExternalChange(callback: (event: ExternalChange) => void, component?: Component): () => void {
+        this.externalListeners.add(callback)
+
+        const unsubscribe = () => {
+            this.externalListeners.delete(callback)
+        }
+
+        component?.register(unsubscribe)
+
+        return unsubscribe
+    }
+
+    /**
+     * The plugin passed to `load()`, required by methods that save implicitly.
+     */
+    private loadedPlugin(): Plugin {
+        if (!this.plugin) {
+            throw new Error("Settings have not been loaded")
+        }
+        return this.plugin
+    }
+
+    /**
+     * Read, migrate, merge and validate the stored settings.
+     *
+     * Migrations apply to the shared base settings only; profile overrides
+     * are stored as-is. Device-local values and secrets take precedence over
+     * any synced values for the same paths, which are kept until the next save.
+     */
+    private async read(
+        plugin: Plugin
+    ): Promise<{ raw: Record<string, unknown> | null; result: T; migrated: boolean }> {
+        const raw = (await plugin.loadData()) as Record<string, unknown> | null
+        const saved = raw ? structuredClone(raw) : {}
+        this.pendingBackup = null
+
+        // Default array items the user has already seen
+        const seen = isPlainObject(saved[ARRAYS_KEY])
+            ? (saved[ARRAYS_KEY] as Record<string, string[]>)
+            : undefined
+        delete saved[ARRAYS_KEY]
+
+        // Profiles are stored alongside the shared base settings
+        const profiles = ProfileSet.parse(saved[PROFILES_KEY])
+        delete saved[PROFILES_KEY]
+
+        // Run pending migrations; this also strips the metadata keys
+        const outcome = await this.migrate(saved)
+
+        if (outcome.migrated && raw !== null) {
+            this.pendingBackup = raw
+        }
+
+        this.version = Math.max(outcome.storedVersion, this.currentVersion)
+        this.appliedMigrations = outcome.applied
+
+        // Detect settings written by a newer plugin version
+        this._futureVersion = null
+        if (outcome.newer) {
+            this.handleFutureVersion(outcome.storedVersion, outcome.unknown)
+        }
+
+        // Device-local values are not migrated; they replace synced values
+        const local = this.readLocal(plugin)
+        for (const path of this.local) {
+            if (hasPath(local, path)) {
+                setPath(saved, path, getPath(local, path))
+            }
+        }
+
+        for (const path of this.secrets) {
+            const secret = this.readSecret(plugin, path)
+            if (secret !== null) {
+                setPath(saved, path, secret)
+            }
+        }
+
+        // Deep merge defaults with saved data
+        const base = deepMerge(this.defaults, saved as Partial<T>, { arrays: this.arrays, seen })
+
+        // Replace invalid values with defaults
+        this._validation = this.validate(base)
+
+        // Apply the active profile, if any
+        this.base = base
+        this.profileSet = profiles
+        const result = this.effectiveSettings()
+
+        return { raw, result, migrated: outcome.migrated }
+    }
+
+    /**
+     * Save settings to the plugin's data store.
+     *
+     * Re-attaches the version key so migrations are tracked correctly,
+     * notifies store listeners of any values that changed, and records the
+     * changes in the undo history. Saves within the
+     * configured delay are coalesced into a single write of the latest
+     * settings; the returned promise resolves once that write completes.
+     *
+     * If the stored settings came from a newer plugin version, the configured
+     * `futureVersionPolicy` decides whether anything is written. Changes that
+     * are not written are kept out of the undo history.
+     */
+    async save(plugin: Plugin, settings: T): Promise<void> {
+        if (this._futureVersion?.policy === "refuse") {
+            throw new FutureVersionError(this._futureVersion.storedVersion, this.currentVersion)
+        }
+
+        const changes = this._store.update(settings)
+
+        if (this._futureVersion?.policy === "readonly") {
+            this.logger.debug("Settings are read-only; skipping save")
+            return
+        }
+
+        this._history.record(changes)
+        this.pendingSave = { plugin, settings }
+        return this.scheduler.schedule()
+    }
+
+    /**
+     * Write any pending save immediately and wait for it to complete.
+     *
+     * Call this from the plugin's `onunload` when using a save delay.
+     */
+    async flush(): Promise<void> {
+        await this.scheduler.flush()
+    }
+
+    /**
+     * Read the current value at a dotted path.
+     */
+    get<P extends Path<T>>(path: P): PathValue<T, P> {
+        return this._store.get(path)
+    }
+
+    /**
+     * Read the default value at a dotted path.
+     */
+    getDefault<P extends Path<T>>(path: P): PathValue<T, P> {
+        return structuredClone(getPath(this.defaults, path)) as PathValue<T, P>
+    }
+
+    /**
+     * Set the value at a dotted path and save.
+     */
+    async set<P extends Path<T>>(path: P, value: PathValue<T, P>): Promise<void> {
+        setPath(this._store.value, path, value)
+        await this.save(this.loadedPlugin(), this._store.value)
+    }
+
+    /**
+     * Restore the default value at a dotted path, or all settings if no path
+     * is given, and save.
+     */
+    async reset<P extends Path<T>>(path?: P): Promise<void> {
+        const settings = this._store.value
+
+        if (path === undefined) {
+            replaceContents(settings, structuredClone(this.defaults))
+        } else if (hasPath(this.defaults, path)) {
+            setPath(settings, path, structuredClone(getPath(this.defaults, path)))
+        } else {
+            deletePath(settings, path)
+        }
+
+        await this.save(this.loadedPlugin(), settings)
+    }
+
+    /**
+     * Revert the most recent entry in the history and save.
+     *
+     * Returns `false` if there was nothing to undo.
+     */
+    async undo(): Promise<boolean> {
+        const entry = this._history.undo()
+        if (!entry) return false
+
+        await this.restore([...entry.changes].reverse(), "oldValue")
+        return true
+    }
+
+    /**
+     * Reapply the most recently undone entry in the history and save.
+     *
+     * Returns `false` if there was nothing to redo.
+     */
+    async redo(): Promise<boolean> {
+        const entry = this._history.redo()
+        if (!entry) return false
+
+        await this.restore(entry.changes, "newValue")
+        return true
+    }
+
+    /**
+     * True if the dotted path is a secret setting (or inside one).
+     */
+    isSecret(path: string): boolean {
+        return this.secrets.some(secret => pathsOverlap(secret, path))
+    }
+
+    /**
+     * Names of all settings profiles.
+     */
+    get profiles(): string[] {
+        return this.profileSet.names
+    }
+
+    /**
+     * Name of the active profile, or `null` if the shared base settings are active.
+     */
+    get activeProfile(): string | null {
+        return this.profileSet.active
+    }
+
+    /**
+     * Create a profile that inherits everything from the shared base settings.
+     */
+    async createProfile(name: string): Promise<void> {
+        this.profileSet.create(name)
+        await this.save(this.loadedPlugin(), this._store.value)
+    }
+
+    /**
+     * Copy a profile (or the shared base settings, if `source` is `null`).
+     */
+    async duplicateProfile(source: string | null, name: string): Promise<void> {
+        this.captureProfile(structuredClone(this._store.value))
+
+        if (source === null) {
+            this.profileSet.create(name)
+        } else {
+            this.profileSet.duplicate(source, name)
+        }
+
+        await this.save(this.loadedPlugin(), this._store.value)
+    }
+
+    /**
+     * Rename a profile.
+     */
+    async renameProfile(from: string, to: string): Promise<void> {
+        this.profileSet.rename(from, to)
+        await this.save(this.loadedPlugin(), this._store.value)
+    }
+
+    /**
+     * Delete a profile. If it was active, the shared base settings become active.
+     */
+    async deleteProfile(name: string): Promise<void> {
+        const wasActive = this.profileSet.active === name
+
+        this.profileSet.delete(name)
+
+        if (wasActive) {
+            replaceContents(this._store.value, this.effectiveSettings())
+            this._store.update()
+            this._history.clear()
+        }
+
+        await this.save(this.loadedPlugin(), this._store.value)
+    }
+
+    /**
+     * Switch to a profile, or to the shared base settings if `name` is `null`.
+     *
+     * The current settings object is updated in place and saved.
+     */
+    async switchProfile(name: string | null): Promise<void> {
+        this.captureProfile(structuredClone(this._store.value))
+        this.profileSet.activate(name)
+
+        replaceContents(this._store.value, this.effectiveSettings())
+
+        // history entries belong to the previous profile
+        this._store.update()
+        this._history.clear()
+
+        this.logger.info(`Switched to profile: ${name ?? "(default)"}`)
+
+        await this.save(this.loadedPlugin(), this._store.value)
+    }
+
+    /**
+     * Return only the settings that differ from their defaults.
+     *
+     * Defaults to the settings currently held by the store.
+     */
+    diffFromDefaults(settings: T = this._store.value): Partial<T> {
+        return deepDiff(this.defaults, settings)
+    }
+
+    /**
+     * Export settings as a versioned JSON document. Secrets are never
+     * included.
+     *
+     * Defaults to the settings currently held by the store.
+     */
+    exportSettings(settings: T = this._store.value): string {
+        const values = structuredClone(settings)
+
+        for (const path of this.secrets) {
+            deletePath(values, path)
+        }
+
+        const doc: SettingsExport = {
+            format: EXPORT_FORMAT,
+            version: this.version,
+            migrations: this.appliedMigrations,
+            exported: new Date().toISOString(),
+            settings: values,
+        }
+
+        const seen = this.seenArrayDefaults()
+        if (Object.keys(seen).length > 0) {
+            doc.arrays = seen
+        }
+
+        return JSON.stringify(doc, null, 2)
+    }
+
+    /**
+     * Import settings from a JSON document.
+     *
+     * Accepts output from `exportSettings()` or the contents of a `data.json`
+     * file. The data runs through the same migrations, merge and validation as
+     * `load()`; keys that are not known settings are discarded. Secrets missing
+     * from the document keep their current values. Nothing is saved; pass the
+     * result to `applyImport()` to apply it.
+     */
+    async importSettings(json: string): Promise<ImportResult<T>> {
+        const parsed: unknown = JSON.parse(json)
+
+        if (!isPlainObject(parsed)) {
+            throw new Error("Imported settings must be a JSON object")
+        }
+
+        let data: Record<string, unknown>
+
+        if (parsed.format === EXPORT_FORMAT) {
+            if (!isPlainObject(parsed.settings)) {
+                throw new Error("Imported settings document has no settings")
+            }
+            data = {
+                ...structuredClone(parsed.settings),
+                [VERSION_KEY]: parsed.version,
+                [APPLIED_KEY]: parsed.migrations,
+                [ARRAYS_KEY]: parsed.arrays,
+            }
+        } else {
+            data = structuredClone(parsed)
+        }
+
+        // Default array items the exporting vault had already seen
+        const seen = isPlainObject(data[ARRAYS_KEY])
+            ? (data[ARRAYS_KEY] as Record<string, string[]>)
+            : undefined
+        delete data[ARRAYS_KEY]
+        delete data[PROFILES_KEY]
+
+        const outcome = await this.migrate(data)
+
+        if (outcome.newer) {
+            throw new Error("Cannot import settings from a newer plugin version")
+        }
+
+        const before = leafPaths(parsed.format === EXPORT_FORMAT ? parsed.settings : parsed)
+        const after = new Set(leafPaths(data))
+        const droppedKeys = before.filter(
+            path => !after.has(path) && !path.startsWith("__obskit_") && !hasLeafBelow(after, path)
+        )
+
+        const unknownKeys = [...after].filter(path => !isKnownPath(this.defaults, path))
+        for (const path of unknownKeys) {
+            deletePath(data, unknownAncestor(this.defaults, path))
+        }
+
+        const settings = deepMerge(this.defaults, data as Partial<T>, { arrays: this.arrays, seen })
+
+        for (const path of this.secrets) {
+            if (!hasPath(data, path)) {
+                setPath(settings, path, getPath(this._store.value, path))
+            }
+        }
+
+        const validation = this.validate(settings)
+
+        this.logger.info(
+            `Imported settings (${unknownKeys.length} unknown, ${droppedKeys.length} dropped)`
+        )
+
+        return { settings, validation, unknownKeys, droppedKeys }
+    }
+
+    /**
+     * Replace the current settings with imported ones and save.
+     *
+     * The current settings object is updated in place, as for external
+     * changes, profile switches and `reset()`, so existing references stay
+     * valid. Returns that object.
+     */
+    async applyImport(result: ImportResult<T>): Promise<T> {
+        const settings = this._store.value
+
+        replaceContents(settings, structuredClone(result.settings))
+        await this.save(this.loadedPlugin(), settings)
+
+        return settings
+    }
+
+    /**
+     * Apply one side of a list of changes to the current settings and save,
+     * without recording them in the history again.
+     */
+    private async restore(changes: SettingsChange[], side: "oldValue" | "newValue"): Promise<void> {
+        const settings = this._store.value
+
+        for (const change of changes) {
+            const value = change[side]
 
-    constructor(options: PluginConfigOptions<T>) {
-        this.defaults = options.defaults
-        this.migrations = options.migrations ?? []
+            if (value === undefined) {
+                deletePath(settings, change.path)
+            } else {
+                setPath(settings, change.path, structuredClone(value))
+            }
+        }
+
+        this._store.update()
+        await this.save(this.loadedPlugin(), settings)
     }
 
     /**
-     * Load settings from the plugin's data store.
+     * Apply the stored log level overrides and keep them in sync with the
+     * Logger, saving whenever the overrides are changed there.
+     */
+    private bindLogLevels(plugin: Plugin): void {
+        const path = this.logLevels
+        if (path === undefined) return
+
+        this.applyLogLevels(path)
+
+        if (this.logLevelsBound) return
+        this.logLevelsBound = true
+
+        const removeStoreListener = this._store.onAnyChange(changes => {
+            if (changes.some(change => pathsOverlap(change.path, path))) {
+                this.applyLogLevels(path)
+            }
+        })
+
+        const removeLoggerListener = Logger.onLogLevelsChange(() => {
+            const levels = Logger.getLogLevels()
+            if (deepEqual(getPath(this._store.value, path), levels)) return
+
+            setPath(this._store.value, path, levels)
+            this.save(plugin, this._store.value).catch(err => {
+                this.logger.error("Failed to save log levels", err)
+            })
+        })
+
+        plugin.register(() => {
+            removeStoreListener()
+            removeLoggerListener()
+            this.logLevelsBound = false
+        })
+    }
+
+    private applyLogLevels(path: string): void {
+        const levels = getPath(this._store.value, path)
+        Logger.setLogLevels(isPlainObject(levels) ? (levels as Record<string, LogLevel>) : {})
+    }
+
+    /**
+     * Replace invalid values with their defaults, logging each one.
+     */
+    private validate(settings: T): ValidationReport {
+        const report = validateSettings(this.defaults, settings, {
+            validators: this.validators,
+            inferTypes: this.inferTypes,
+        })
+
+        for (const issue of report.issues) {
+            this.logger.warn(`Invalid setting '${issue.path}' (${issue.reason}); using default`)
+        }
+
+        return report
+    }
+
+    /**
+     * Ensure named migrations have unique ids.
+     */
+    private checkMigrationIds(): void {
+        const seen = new Set<string>()
+
+        for (const migration of this.migrations.filter(isNamedMigration)) {
+            if (seen.has(migration.id)) {
+                throw new Error(`Duplicate migration id: ${migration.id}`)
+            }
+            seen.add(migration.id)
+        }
+    }
+
+    /**
+     * The number of unnamed migrations, which is the version recorded in
+     * `data.json` once they have all run.
+     */
+    private get currentVersion(): number {
+        return this.migrations.filter(migration => !isNamedMigration(migration)).length
+    }
+
+    /**
+     * Run pending migrations against raw settings data, in place.
      *
-     * Runs pending migrations, deep merges with defaults, and optionally
-     * saves back if migrations were applied.
+     * Unnamed migrations are applied in order, counting only unnamed
+     * migrations against the stored version number; named migrations are
+     * applied unless their id has been recorded. Recorded ids this build does
+     * not know about are kept, so removed named migrations are tolerated.
+     *
+     * Removes the metadata keys from `data`.
      */
-    async load(plugin: Plugin): Promise<T> {
-        const raw = (await plugin.loadData()) as Record<string, unknown> | null
-        const saved = raw ?? {}
+    private async migrate(data: Record<string, unknown>): Promise<MigrationOutcome> {
+        const version = typeof data[VERSION_KEY] === "number" ? (data[VERSION_KEY] as number) : 0
+        const recorded = Array.isArray(data[APPLIED_KEY])
+            ? (data[APPLIED_KEY] as unknown[]).filter((id): id is string => typeof id === "string")
+            : []
+
+        delete data[VERSION_KEY]
+        delete data[APPLIED_KEY]
 
-        // Determine current version
-        const version = typeof saved[VERSION_KEY] === "number" ? (saved[VERSION_KEY] as number) : 0
+        const applied = new Set(recorded)
+        const known = new Set(this.migrations.filter(isNamedMigration).map(m => m.id))
+        const unknown = [...applied].filter(id => !known.has(id))
 
-        // Run pending migrations
-        const migrated = version < this.migrations.length
-        for (let i = version; i < this.migrations.length; i++) {
-            this.logger.debug(`Running migration ${i}`)
+        let migrated = false
+        let unnamed = 0
+
+        for (let i = 0; i < this.migrations.length; i++) {
             const migration = this.migrations[i]
-            if (migration) {
-                migration(saved)
+            if (!migration) continue
+
+            const named = isNamedMigration(migration) ? migration : null
+            const done = named ? applied.has(named.id) : unnamed++ < version
+
+            if (done) {
+                this.logger.debug(`Skipping applied migration ${named?.id ?? i}`)
+                continue
+            }
+
+            try {
+                await (isNamedMigration(migration) ? migration.migrate(data) : migration(data))
+            } catch (err) {
+                this.logger.error(
+                    `Migration ${named?.id ?? i} failed; settings were not modified`,
+                    err
+                )
+                throw new MigrationError(i, err, named?.id)
+            }
+
+            if (named) {
+                applied.add(named.id)
+                this.logger.info(
+                    `Applied migration ${named.id}` +
+                        (named.description ? `: ${named.description}` : "")
+                )
+            } else {
+                this.logger.info(`Applied migration ${i}`)
             }
+
+            migrated = true
         }
 
-        // Remove version key before merge so it doesn't leak into typed result
-        delete saved[VERSION_KEY]
+        if (unknown.length > 0) {
+            this.logger.debug(`Keeping unknown applied migrations: ${unknown.join(", ")}`)
+        }
 
-        // Deep merge defaults with saved data
-        const result = deepMerge(this.defaults, saved as Partial<T>)
+        return {
+            migrated,
+            storedVersion: version,
+            newer: version > this.currentVersion,
+            applied: [...applied],
+            unknown,
+        }
+    }
+
+    /**
+     * Build the data to store: the shared base settings plus the metadata keys
+     * used to track migrations, array defaults and profiles. Default values
+     * are dropped first when persisting sparsely, and device-local values and
+     * secrets are left out entirely.
+     */
+    private withMetadata(settings: T): Record<string, unknown> {
+        const base = this.captureProfile(settings)
+        const values = structuredClone(this.sparse ? deepDiff(this.defaults, base) : base)
 
-        // Save back if migrations ran or first run
-        if (migrated || raw === null) {
-            const toSave = { ...result, [VERSION_KEY]: this.migrations.length }
-            await plugin.saveData(toSave)
-            this.logger.debug(`Settings saved (version ${this.migrations.length})`)
+        for (const path of this.unsyncedPaths()) {
+            deletePath(values, path)
         }
 
-        return result
+        const data: Record<string, unknown> = { ...values, [VERSION_KEY]: this.version }
+
+        if (this.appliedMigrations.length > 0) {
+            data[APPLIED_KEY] = this.appliedMigrations
+        }
+
+        const seen = this.seenArrayDefaults()
+        if (Object.keys(seen).length > 0) {
+            data[ARRAYS_KEY] = seen
+        }
+
+        if (!this.profileSet.isEmpty) {
+            data[PROFILES_KEY] = this.profileSet.toJSON()
+        }
+
+        return data
     }
 
     /**
-     * Save settings to the plugin's data store.
+     * Record settings as the active profile's overrides, or as the shared
+     * base if no profile is active. Device-local values and secrets always go
+     * to the base, since they are not part of any profile. Returns the shared
+     * base settings.
+     */
+    private captureProfile(settings: T): T {
+        const active = this.profileSet.active
+
+        if (active === null) {
+            this.base = structuredClone(settings)
+        } else {
+            for (const path of this.unsyncedPaths()) {
+                if (hasPath(settings, path)) {
+                    setPath(this.base, path, structuredClone(getPath(settings, path)))
+                }
+            }
+            this.profileSet.setOverrides(active, structuredClone(deepDiff(this.base, settings)))
+        }
+
+        return this.base
+    }
+
+    /**
+     * The shared base settings with the active profile's overrides applied.
+     */
+    private effectiveSettings(): T {
+        const active = this.profileSet.active
+
+        if (active === null) {
+            return structuredClone(this.base)
+        }
+
+        const overrides = this.profileSet.overrides(active) as Partial<T>
+        const settings = structuredClone(deepMerge(this.base, overrides))
+        this.validate(settings)
+
+        return settings
+    }
+
+    /**
+     * Keys of the current default items for each array with a merge strategy.
+     */
+    private seenArrayDefaults(): Record<string, string[]> {
+        const seen: Record<string, string[]> = {}
+
+        for (const path of Object.keys(this.arrays)) {
+            const strategy = this.arrays[path]
+            const defaults = getPath(this.defaults, path)
+
+            if (strategy && strategy !== "replace" && Array.isArray(defaults)) {
+                seen[path] = defaults.map(item => arrayItemKey(item, strategy))
+            }
+        }
+
+        return seen
+    }
+
+    /**
+     * Read device-local values from `localStorage`, namespaced by plugin id.
      *
-     * Re-attaches the version key so migrations are tracked correctly.
+     * Obsidian namespaces `localStorage` by vault, so each vault on each
+     * device has its own copy.
      */
-    async save(plugin: Plugin, settings: T): Promise<void> {
-        const toSave = { ...settings, [VERSION_KEY]: this.migrations.length }
-        await plugin.saveData(toSave)
+    private readLocal(plugin: Plugin): Record<string, unknown> {
+        if (this.local.length === 0) return {}
+
+        const data: unknown = plugin.app.loadLocalStorage(localStorageKey(plugin))
+        return isPlainObject(data) ? data : {}
+    }
+
+    /**
+     * Write device-local values to `localStorage`.
+     */
+    private writeLocal(plugin: Plugin, settings: T): void {
+        if (this.local.length === 0) return
+
+        const data: Record<string, unknown> = {}
+        for (const path of this.local) {
+            if (hasPath(settings, path)) {
+                setPath(data, path, getPath(settings, path))
+            }
+        }
+
+        plugin.app.saveLocalStorage(localStorageKey(plugin), data)
+    }
+
+    /**
+     * Paths of all settings that are stored outside `data.json`.
+     */
+    private unsyncedPaths(): string[] {
+        return [...this.local, ...this.secrets]
+    }
+
+    /**
+     * Current non-empty secret values, for redacting log output.
+     */
+    private secretValues(): string[] {
+        const values: string[] = []
+
+        for (const path of this.secrets) {
+            const value = getPath(this._store.value, path)
+            if (typeof value === "string" && value !== "") {
+                values.push(value)
+            }
+        }
+
+        return values
+    }
+
+    /**
+     * Read a secret from Obsidian's secret storage, or from `localStorage` if
+     * secret storage is not available. Returns `null` if it was never saved.
+     */
+    private readSecret(plugin: Plugin, path: string): string | null {
+        const id = secretId(plugin, path)
+        const storage = plugin.app.secretStorage
+
+        if (storage) {
+            return storage.getSecret(id)
+        }
+
+        const fallback: unknown = plugin.app.loadLocalStorage(`${SECRETS_STORAGE_KEY}:${id}`)
+        return typeof fallback === "string" ? fallback : null
+    }
+
+    /**
+     * Write changed secrets to Obsidian's secret storage (or `localStorage`).
+     */
+    private writeSecrets(plugin: Plugin, settings: T): void {
+        for (const path of this.secrets) {
+            const value = getPath(settings, path)
+
+            if (typeof value !== "string") {
+                this.logger.warn(`Secret setting '${path}' is not a string; not saved`)
+                continue
+            }
+
+            if (value === this.readSecret(plugin, path)) continue
+
+            const id = secretId(plugin, path)
+            const storage = plugin.app.secretStorage
+
+            if (storage) {
+                storage.setSecret(id, value)
+            } else {
+                plugin.app.saveLocalStorage(`${SECRETS_STORAGE_KEY}:${id}`, value)
+            }
+        }
+    }
+
+    /**
+     * Record and report stored settings from a newer plugin version.
+     */
+    private handleFutureVersion(storedVersion: number, unknownMigrations: string[]): void {
+        const info: FutureVersionInfo = {
+            storedVersion,
+            currentVersion: this.currentVersion,
+            unknownMigrations,
+            policy: this.futureVersionPolicy,
+        }
+
+        this._futureVersion = info
+
+        this.logger.warn(
+            `Settings were saved by a newer plugin version (version ${storedVersion}, ` +
+                `unknown migrations: ${unknownMigrations.join(", ") || "none"}; policy: ${info.policy})`
+        )
+
+        this.onFutureVersion?.(info)
+    }
+
+    /**
+     * Write a timestamped copy of the stored data from before the last
+     * migration next to `data.json`, if it has not been written yet.
+     *
+     * Returns `true` if the backup was written, or none is needed.
+     */
+    private async writeBackup(plugin: Plugin): Promise<boolean> {
+        const data = this.pendingBackup
+        if (!this.backup || data === null) return true
+
+        const dir = plugin.manifest.dir
+        if (!dir) {
+            this.logger.error("Plugin directory unknown; migrated settings not saved")
+            return false
+        }
+
+        const stamp = new Date().toISOString().replace(/[:.]/g, "-")
+        const path = `${dir}/data.${stamp}.bak.json`
+
+        try {
+            await plugin.app.vault.adapter.write(path, JSON.stringify(data, null, 2))
+            this.logger.info(`Settings backed up to ${path}`)
+            this.pendingBackup = null
+            return true
+        } catch (err) {
+            this.logger.error("Failed to write settings backup; migrated settings not saved", err)
+            return false
+        }
+    }
+
+    /**
+     * Write the most recently requested settings.
+     */
+    private async writePending(): Promise<void> {
+        const pending = this.pendingSave
+        if (!pending) return
+
+        this.pendingSave = null
+
+        const written = structuredClone(pending.settings)
+
+        if (!(await this.writeBackup(pending.plugin))) {
+            throw new BackupError()
+        }
+
+        try {
+            await pending.plugin.saveData(this.withMetadata(written))
+            this.writeLocal(pending.plugin, written)
+            this.writeSecrets(pending.plugin, written)
+            this.lastPersisted = written
+        } catch (err) {
+            this.logger.error("Failed to save settings", err)
+            throw err
+        }
+    }
+}
+
+/**
+ * The `localStorage` key holding a plugin's device-local settings.
+ */
+function localStorageKey(plugin: Plugin): string {
+    return `${LOCAL_STORAGE_KEY}:${plugin.manifest.id}`
+}
+
+/**
+ * The secret storage id for a secret setting.
+ *
+ * Secret ids must be lowercase alphanumeric with dashes, so camel case and
+ * other separators in the path become dashes.
+ */
+function secretId(plugin: Plugin, path: string): string {
+    const name = `${plugin.manifest.id}-${path}`
+        .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+
+    return name.replace(/^-+|-+$/g, "")
+}
+
+/**
+ * Check whether a path refers to a known setting in `defaults`.
+ *
+ * Paths nested below a non-object default (e.g. inside a `null` default)
+ * are considered known.
+ */
+function isKnownPath(defaults: Record<string, unknown>, path: string): boolean {
+    let current: unknown = defaults
+
+    for (const key of path.split(".")) {
+        if (!isPlainObject(current)) return true
+        if (!(key in current)) return false
+        current = current[key]
+    }
+
+    return true
+}
+
+/**
+ * The shortest prefix of an unknown path that is not a known setting, so
+ * unknown objects are removed as a whole rather than left empty.
+ */
+function unknownAncestor(defaults: Record<string, unknown>, path: string): string {
+    const keys = path.split(".")
+
+    for (let i = 1; i < keys.length; i++) {
+        const prefix = keys.slice(0, i).join(".")
+        if (!isKnownPath(defaults, prefix)) return prefix
     }
+
+    return path
+}
+
+/**
+ * Check whether any path in `paths` is nested below `path`.
+ */
+function hasLeafBelow(paths: Set<string>, path: string): boolean {
+    return [...paths].some(other => other.startsWith(`${path}.`))
+}
+
+/**
+ * Check if a migration is a named migration.
+ */
+function isNamedMigration(migration: Migration | NamedMigration): migration is NamedMigration {
+    return typeof migration !== "function"
 }
 
 /**
- * Check if a value is a plain object (not an array, null, Date, etc.).
+ * How arrays at a given path are merged with their defaults.
+ *
+ * - `replace`: the saved array wins as a whole (the default)
+ * - `append-missing`: default items missing from the saved array are appended
+ * - `{ mergeBy: key }`: object items are matched by `key` and deep merged;
+ *   unmatched default items are appended
+ *
+ * Default items the user has already seen (see `MergeOptions.seen`) are never
+ * appended again, so items the user removed are not resurrected.
  */
-function isPlainObject(value: unknown): value is Record<string, unknown> {
-    return (
-        typeof value === "object" &&
-        value !== null &&
-        !Array.isArray(value) &&
-        !(value instanceof Date) &&
-        !(value instanceof RegExp)
-    )
+export type ArrayStrategy = "replace" | "append-missing" | { mergeBy: string }
+
+/** Options for `deepMerge`. */
+export interface MergeOptions {
+    /** Array merge strategies keyed by dotted path. */
+    arrays?: Record<string, ArrayStrategy>
+    /** Keys of default array items that were present at the last save, by path. */
+    seen?: Record<string, string[]> | undefined
 }
 
 /**
  * Deep merge two objects. Values from `saved` take precedence.
- * Nested objects are recursively merged. Arrays are treated as atomic.
+ * Nested objects are recursively merged. Arrays are treated as atomic unless
+ * a strategy is configured for their path.
  * Only truly missing keys in `saved` are filled from `defaults`.
  *
  * Note: We use a custom implementation rather than ts-deepmerge (or similar)
@@ -101,28 +1359,40 @@ function isPlainObject(value: unknown): value is Record<string, unknown> {
  * Jest's sandboxed VM context. Our isPlainObject check avoids constructor
  * identity comparisons, making it cross-realm safe.
  */
-export function deepMerge<T extends Record<string, unknown>>(defaults: T, saved: Partial<T>): T {
+export function deepMerge<T extends Record<string, unknown>>(
+    defaults: T,
+    saved: Partial<T>,
+    options: MergeOptions = {}
+): T {
+    return mergeObjects(defaults, saved as Record<string, unknown>, options, "") as T
+}
+
+function mergeObjects(
+    defaults: Record<string, unknown>,
+    saved: Record<string, unknown>,
+    options: MergeOptions,
+    prefix: string
+): Record<string, unknown> {
     const result: Record<string, unknown> = {}
 
     // Start with all keys from defaults
     for (const key of Object.keys(defaults)) {
+        const path = prefix ? `${prefix}.${key}` : key
         const defaultVal = defaults[key]
-        const savedVal = (saved as Record<string, unknown>)[key]
+        const savedVal = saved[key]
+        const strategy = options.arrays?.[path] ?? "replace"
 
-        if (!(key in (saved as Record<string, unknown>))) {
+        if (!(key in saved)) {
             // Key missing from saved — use default (deep clone)
             result[key] = isPlainObject(defaultVal)
-                ? deepMerge(
-                      defaultVal as Record<string, unknown>,
-                      {} as Partial<Record<string, unknown>>
-                  )
+                ? mergeObjects(defaultVal, {}, options, path)
                 : defaultVal
         } else if (isPlainObject(defaultVal) && isPlainObject(savedVal)) {
             // Both are plain objects — recurse
-            result[key] = deepMerge(
-                defaultVal as Record<string, unknown>,
-                savedVal as Partial<Record<string, unknown>>
-            )
+            result[key] = mergeObjects(defaultVal, savedVal, options, path)
+        } else if (strategy !== "replace" && Array.isArray(defaultVal) && Array.isArray(savedVal)) {
+            // Both are arrays with a merge strategy
+            result[key] = mergeArrays(defaultVal, savedVal, strategy, options.seen?.[path])
         } else {
             // Saved value wins (including null, false, 0, "", arrays)
             result[key] = savedVal
@@ -130,11 +1400,145 @@ export function deepMerge<T extends Record<string, unknown>>(defaults: T, saved:
     }
 
     // Preserve extra keys from saved that aren't in defaults
-    for (const key of Object.keys(saved as Record<string, unknown>)) {
+    for (const key of Object.keys(saved)) {
+        if (!(key in defaults)) {
+            result[key] = saved[key]
+        }
+    }
+
+    return result
+}
+
+/**
+ * Merge a saved array with its defaults using the given strategy.
+ *
+ * If `seen` is undefined (e.g. data saved before tracking began), every
+ * missing default item is appended.
+ */
+function mergeArrays(
+    defaults: unknown[],
+    saved: unknown[],
+    strategy: Exclude<ArrayStrategy, "replace">,
+    seen: string[] | undefined
+): unknown[] {
+    const keyOf = (item: unknown) => arrayItemKey(item, strategy)
+    const defaultsByKey = new Map(defaults.map(item => [keyOf(item), item] as const))
+
+    const result = saved.map(item => {
+        const defaultItem = defaultsByKey.get(keyOf(item))
+        return typeof strategy === "object" && isPlainObject(defaultItem) && isPlainObject(item)
+            ? mergeObjects(defaultItem, item, {}, "")
+            : item
+    })
+
+    const present = new Set(saved.map(keyOf))
+    const dismissed = new Set(seen ?? [])
+
+    for (const item of defaults) {
+        const key = keyOf(item)
+        if (!present.has(key) && !dismissed.has(key)) {
+            result.push(structuredClone(item))
+        }
+    }
+
+    return result
+}
+
+/**
+ * Identify an array item for the given strategy.
+ */
+function arrayItemKey(item: unknown, strategy: ArrayStrategy): string {
+    if (typeof strategy === "object" && isPlainObject(item) && strategy.mergeBy in item) {
+        return String(item[strategy.mergeBy])
+    }
+    return JSON.stringify(item)
+}
+
+/**
+ * Compute the values in `settings` that differ from `defaults`.
+ *
+ * Nested objects are compared recursively and only their differing keys are
+ * kept; arrays and other values are compared as a whole. Keys that are not in
+ * `defaults` are always kept. The result can be passed back to `deepMerge`
+ * to reconstruct the full settings.
+ */
+export function deepDiff<T extends Record<string, unknown>>(defaults: T, settings: T): Partial<T> {
+    const result: Record<string, unknown> = {}
+
+    for (const key of Object.keys(settings)) {
+        const defaultVal = (defaults as Record<string, unknown>)[key]
+        const value = settings[key]
+
         if (!(key in defaults)) {
-            result[key] = (saved as Record<string, unknown>)[key]
+            result[key] = value
+        } else if (isPlainObject(defaultVal) && isPlainObject(value)) {
+            const nested = deepDiff(defaultVal, value)
+            if (Object.keys(nested).length > 0) {
+                result[key] = nested
+            }
+        } else if (!deepEqual(defaultVal, value)) {
+            result[key] = value
+        }
+    }
+
+    return result as Partial<T>
+}
+
+/**
+ * Merge two sets of changes made to a common base.
+ *
+ * Values changed on only one side are taken from that side. Values changed
+ * differently on both sides are conflicts and take the `remote` value.
+ * Nested objects are merged recursively; arrays are treated as atomic.
+ */
+export function threeWayMerge<T extends Record<string, unknown>>(
+    base: T,
+    local: T,
+    remote: T
+): { merged: T; conflicts: string[] } {
+    const conflicts: string[] = []
+    const merged = mergeValues(base, local, remote, "", conflicts) as T
+    return { merged, conflicts }
+}
+
+function mergeValues(
+    base: unknown,
+    local: unknown,
+    remote: unknown,
+    path: string,
+    conflicts: string[]
+): unknown {
+    if (deepEqual(local, remote) || deepEqual(remote, base)) return local
+    if (deepEqual(local, base)) return remote
+
+    if (isPlainObject(local) && isPlainObject(remote)) {
+        const baseObj = isPlainObject(base) ? base : {}
+        const result: Record<string, unknown> = {}
+        const keys = new Set([...Object.keys(local), ...Object.keys(remote)])
+
+        for (const key of keys) {
+            const childPath = path ? `${path}.${key}` : key
+            const value = mergeValues(baseObj[key], local[key], remote[key], childPath, conflicts)
+            if (value !== undefined || key in remote) {
+                result[key] = value
+            }
         }
+
+        return result
     }
 
-    return result as T
+    conflicts.push(path)
+    return remote
+}
+
+/**
+ * Replace the contents of an object in place.
+ */
+function replaceContents(target: Record<string, unknown>, source: Record<string, unknown>): void {
+    for (const key of Object.keys(target)) {
+        if (!(key in source)) {
+            delete target[key]
+        }
+    }
+    Object.assign(target, source)
 }
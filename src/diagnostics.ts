@@ -0,0 +1,241 @@
+import { apiVersion, Notice, Platform, Plugin, Setting } from "obsidian"
+
+import { PluginConfig } from "./config"
+import { ErrorHandler } from "./errors"
+import { formatText, Logger, LogRecord, MemorySink } from "./logger"
+import { getPath, leafPaths } from "./paths"
+
+/** Options for collecting a DiagnosticReport. */
+export interface DiagnosticsOptions<T extends Record<string, unknown>> {
+    plugin: Plugin
+    /** Include the current settings from this config. */
+    config?: PluginConfig<T>
+    /** Include recent log records from this buffer. */
+    sink?: MemorySink
+    /** Maximum number of log records to include (default: 100). */
+    logLimit?: number
+}
+
+/** A single setting in a DiagnosticReport. */
+export interface DiagnosticSetting {
+    path: string
+    value: unknown
+    /** True if the value differs from its default. */
+    changed: boolean
+}
+
+/** Everything a bug report needs, with secrets removed. */
+export interface DiagnosticReport {
+    /** Time the report was collected, as an ISO timestamp. */
+    generated: string
+    plugin: { id: string; name: string; version: string }
+    app: { apiVersion: string; platform: string; userAgent: string }
+    settings: {
+        version: number
+        migrations: string[]
+        profile: string | null
+        readOnly: boolean
+        values: DiagnosticSetting[]
+    } | null
+    errors: { context: string | undefined; message: string; count: number }[]
+    logs: LogRecord[]
+}
+
+/**
+ * Collect plugin, app and settings details for a bug report.
+ *
+ * Secret settings are replaced with `[REDACTED]`, and registered secrets are
+ * removed from every other value.
+ */
+export function collectDiagnostics<T extends Record<string, unknown>>(
+    options: DiagnosticsOptions<T>
+): DiagnosticReport {
+    const { plugin, config, sink } = options
+    const { id, name, version } = plugin.manifest
+
+    const report: DiagnosticReport = {
+        generated: new Date().toISOString(),
+        plugin: { id, name, version },
+        app: {
+            apiVersion,
+            platform: describePlatform(),
+            userAgent: typeof navigator === "undefined" ? "" : navigator.userAgent,
+        },
+        settings: config ? collectSettings(config) : null,
+        errors: (ErrorHandler.installed?.errors ?? []).map(captured => ({
+            context: captured.context,
+            message:
+                captured.error instanceof Error ? captured.error.message : String(captured.error),
+            count: captured.count,
+        })),
+        logs: sink ? sink.records.slice(-(options.logLimit ?? 100)) : [],
+    }
+
+    return Logger.redact(report)
+}
+
+/**
+ * Render a report as Markdown, for a note or an issue.
+ */
+export function formatDiagnostics(report: DiagnosticReport): string {
+    const { plugin, app, settings } = report
+    const lines: string[] = [
+        `# ${plugin.name} diagnostics`,
+        "",
+        `Generated ${report.generated}`,
+        "",
+        "## Environment",
+        "",
+        "| | |",
+        "| --- | --- |",
+        `| Plugin | ${plugin.name} (${plugin.id}) ${plugin.version} |`,
+        `| Obsidian API | ${app.apiVersion} |`,
+        `| Platform | ${app.platform} |`,
+        `| User agent | ${app.userAgent.replace(/\|/g, "\\|")} |`,
+    ]
+
+    if (settings) {
+        const migrations = settings.migrations.length > 0 ? settings.migrations.join(", ") : "none"
+
+        lines.push(
+            "",
+            "## Settings",
+            "",
+            `- Version: ${settings.version} (applied migrations: ${migrations})`,
+            `- Profile: ${settings.profile ?? "Default"}`
+        )
+
+        if (settings.readOnly) {
+            lines.push("- Read-only: saved by a newer version of the plugin")
+        }
+
+        lines.push("", "Values that differ from the defaults are in bold.", "")
+
+        for (const { path, value, changed } of settings.values) {
+            const entry = `\`${path}\`: \`${JSON.stringify(value)}\``
+            lines.push(changed ? `- **${entry}**` : `- ${entry}`)
+        }
+    }
+
+    if (report.errors.length > 0) {
+        lines.push("", "## Recent errors", "")
+
+        for (const { context, message, count } of report.errors) {
+            const repeats = count > 1 ? ` (×${count})` : ""
+            lines.push(`- ${context ? `${context}: ` : ""}${message}${repeats}`)
+        }
+    }
+
+    if (report.logs.length > 0) {
+        lines.push("", "## Recent logs", "", "```text", ...report.logs.map(formatText), "```")
+    }
+
+    return `${lines.join("\n")}\n`
+}
+
+/** Options for a DiagnosticsSetting. */
+export interface DiagnosticsSettingOptions<
+    T extends Record<string, unknown>,
+> extends DiagnosticsOptions<T> {
+    name?: string
+    description?: string
+    /** Folder for diagnostics notes (default: the vault root). */
+    folder?: string
+}
+
+/**
+ * Buttons for copying a diagnostic report or saving it as a note.
+ */
+export class DiagnosticsSetting<T extends Record<string, unknown>> {
+    private options: DiagnosticsSettingOptions<T>
+
+    private logger: Logger = Logger.getLogger("settings")
+
+    constructor(options: DiagnosticsSettingOptions<T>) {
+        this.options = options
+    }
+
+    /**
+     * Creates the setting element in the provided container.
+     */
+    display(containerEl: HTMLElement): Setting {
+        const { name, description } = this.options
+
+        return new Setting(containerEl)
+            .setName(name ?? "Diagnostics")
+            .setDesc(description ?? "Collect details to include when reporting a problem.")
+            .addButton(button => {
+                button.setButtonText("Copy")
+                button.setTooltip("Copy diagnostics to the clipboard")
+                button.onClick(() => this.copy())
+            })
+            .addButton(button => {
+                button.setButtonText("Create note")
+                button.setTooltip("Save diagnostics as a note")
+                button.onClick(() => this.createNote())
+            })
+    }
+
+    private async copy(): Promise<void> {
+        try {
+            await navigator.clipboard.writeText(formatDiagnostics(collectDiagnostics(this.options)))
+            new Notice("Diagnostics copied to clipboard")
+        } catch (err) {
+            this.logger.error("Failed to copy diagnostics", err)
+            new Notice(`Failed to copy diagnostics: ${err instanceof Error ? err.message : err}`)
+        }
+    }
+
+    private async createNote(): Promise<void> {
+        const { plugin, folder } = this.options
+        const report = collectDiagnostics(this.options)
+        const stamp = report.generated.slice(0, 19).replace("T", " ").replace(/:/g, "-")
+        const path = `${folder ? `${folder}/` : ""}${plugin.manifest.id} diagnostics ${stamp}.md`
+
+        try {
+            await plugin.app.vault.create(path, formatDiagnostics(report))
+            new Notice(`Diagnostics saved to ${path}`)
+        } catch (err) {
+            this.logger.error("Failed to save diagnostics", err)
+            new Notice(`Failed to save diagnostics: ${err instanceof Error ? err.message : err}`)
+        }
+    }
+}
+
+function collectSettings<T extends Record<string, unknown>>(
+    config: PluginConfig<T>
+): DiagnosticReport["settings"] {
+    const values = structuredClone(config.store.value)
+    const changed = leafPaths(config.diffFromDefaults())
+
+    return {
+        version: config.settingsVersion,
+        migrations: config.appliedMigrationIds,
+        profile: config.activeProfile,
+        readOnly: config.readOnly,
+        values: leafPaths(values).map(path => {
+            const value = getPath(values, path)
+
+            return {
+                path,
+                value: config.isSecret(path) && value !== "" ? "[REDACTED]" : value,
+                changed: changed.some(other => other === path || other.startsWith(`${path}.`)),
+            }
+        }),
+    }
+}
+
+function describePlatform(): string {
+    const systems: [boolean, string][] = [
+        [Platform.isIosApp, "iOS"],
+        [Platform.isAndroidApp, "Android"],
+        [Platform.isMacOS, "macOS"],
+        [Platform.isWin, "Windows"],
+        [Platform.isLinux, "Linux"],
+    ]
+
+    const os = systems.find(([matches]) => matches)?.[1] ?? "unknown OS"
+    const device = Platform.isMobile ? (Platform.isTablet ? "tablet" : "phone") : "desktop"
+
+    return `${os} ${device}`
+}
@@ -0,0 +1,198 @@
+import { Command, Notice, Plugin } from "obsidian"
+
+import { formatError, Logger } from "./logger"
+
+/** Options for creating an ErrorHandler. */
+export interface ErrorHandlerOptions {
+    /** Logger for captured errors (default: the `errors` logger). */
+    logger?: Logger
+    /** Show a notice with a "Copy details" button for new errors (default: true). */
+    notify?: boolean
+    /** Repeats of an error within this many milliseconds are only counted (default: 10000). */
+    dedupeWindow?: number
+}
+
+/** An error seen by an ErrorHandler, with how often it occurred. */
+export interface CapturedError {
+    error: unknown
+    /** Where the error happened, e.g. `Setting: Theme` or `Command: sync`. */
+    context: string | undefined
+    count: number
+    /** Times in milliseconds since the epoch. */
+    firstSeen: number
+    lastSeen: number
+}
+
+/**
+ * Captures errors from plugin callbacks, logging them with their stack and
+ * telling the user about them.
+ *
+ * Install a handler in `onload()` so obskit components report their errors
+ * through it; it is torn down when the plugin unloads.
+ */
+export class ErrorHandler {
+    private static _installed: ErrorHandler | null = null
+
+    private logger: Logger
+    private notify: boolean
+    private dedupeWindow: number
+
+    private captured: Map<string, CapturedError> = new Map()
+
+    constructor(options: ErrorHandlerOptions = {}) {
+        this.logger = options.logger ?? Logger.getLogger("errors")
+        this.notify = options.notify ?? true
+        this.dedupeWindow = options.dedupeWindow ?? 10000
+    }
+
+    /**
+     * The handler installed by the running plugin, if any.
+     */
+    static get installed(): ErrorHandler | null {
+        return ErrorHandler._installed
+    }
+
+    /**
+     * Report an error through the installed handler, or just log it if no
+     * handler is installed.
+     */
+    static report(error: unknown, context?: string): void {
+        if (ErrorHandler._installed) {
+            ErrorHandler._installed.handle(error, context)
+        } else {
+            Logger.getLogger("errors").error(describeContext(context), error)
+        }
+    }
+
+    /**
+     * Errors seen since the handler was created, most recent first.
+     */
+    get errors(): CapturedError[] {
+        return [...this.captured.values()].sort((a, b) => b.lastSeen - a.lastSeen)
+    }
+
+    /**
+     * Make this the plugin's handler until the plugin unloads.
+     */
+    install(plugin: Plugin): void {
+        ErrorHandler._installed = this
+
+        plugin.register(() => {
+            if (ErrorHandler._installed === this) {
+                ErrorHandler._installed = null
+            }
+            this.captured.clear()
+        })
+    }
+
+    /**
+     * Log an error and show a notice, unless the same error was already
+     * handled within the dedupe window.
+     */
+    handle(error: unknown, context?: string, now: number = Date.now()): void {
+        const key = `${context ?? ""}|${errorKey(error)}`
+        const previous = this.captured.get(key)
+
+        if (previous && now - previous.lastSeen <= this.dedupeWindow) {
+            previous.count++
+            previous.lastSeen = now
+            return
+        }
+
+        this.captured.set(key, {
+            error,
+            context,
+            count: (previous?.count ?? 0) + 1,
+            firstSeen: previous?.firstSeen ?? now,
+            lastSeen: now,
+        })
+
+        this.logger.error(describeContext(context), error)
+
+        if (this.notify) {
+            this.showNotice(error, context)
+        }
+    }
+
+    /**
+     * Wrap a callback so errors it throws, or promises it rejects, are
+     * handled instead of escaping. Failed calls return `undefined`.
+     */
+    wrap<A extends unknown[], R>(
+        fn: (...args: A) => R,
+        context?: string
+    ): (...args: A) => R | undefined {
+        return (...args: A) => {
+            try {
+                const result = fn(...args)
+
+                if (result instanceof Promise) {
+                    return result.catch(err => {
+                        this.handle(err, context)
+                        return undefined
+                    }) as R
+                }
+
+                return result
+            } catch (err) {
+                this.handle(err, context)
+                return undefined
+            }
+        }
+    }
+
+    /**
+     * Wrap the callbacks of a command, for `plugin.addCommand()`.
+     */
+    wrapCommand(command: Command): Command {
+        const context = `Command: ${command.name}`
+        const wrapped: Command = { ...command }
+
+        if (command.callback) {
+            wrapped.callback = this.wrap(command.callback, context)
+        }
+        if (command.checkCallback) {
+            const check = this.wrap(command.checkCallback, context)
+            wrapped.checkCallback = checking => check(checking) ?? false
+        }
+        if (command.editorCallback) {
+            wrapped.editorCallback = this.wrap(command.editorCallback, context)
+        }
+        if (command.editorCheckCallback) {
+            const check = this.wrap(command.editorCheckCallback, context)
+            wrapped.editorCheckCallback = (checking, editor, ctx) =>
+                check(checking, editor, ctx) ?? false
+        }
+
+        return wrapped
+    }
+
+    private showNotice(error: unknown, context: string | undefined): void {
+        const message = Logger.redact(error instanceof Error ? error.message : String(error))
+        const details = [
+            describeContext(context),
+            error instanceof Error ? formatError(error) : String(error),
+        ].join("\n")
+
+        const fragment = createFragment(el => {
+            el.createDiv({ text: `${context ? `${context}: ` : ""}${message}` })
+            el.createEl("button", { text: "Copy details" }).addEventListener("click", event => {
+                event.stopPropagation()
+                navigator.clipboard
+                    .writeText(Logger.redact(details))
+                    .then(() => new Notice("Error details copied"))
+                    .catch(err => this.logger.warn("Failed to copy error details", err))
+            })
+        })
+
+        new Notice(fragment, 10000)
+    }
+}
+
+function describeContext(context: string | undefined): string {
+    return context ? `Error in ${context}` : "Unhandled error"
+}
+
+function errorKey(error: unknown): string {
+    return error instanceof Error ? `${error.name}: ${error.message}` : String(error)
+}
@@ -0,0 +1,297 @@
+import { DataAdapter, normalizePath, Notice, Plugin, Setting } from "obsidian"
+
+import { PluginConfig } from "./config"
+import { formatText, LogFormatter, Logger, LogLevel, LogRecord, LogSink } from "./logger"
+import { isPlainObject } from "./objects"
+import { getPath, pathsOverlap, setPath } from "./paths"
+
+/** Options for creating a FileSink. */
+export interface FileSinkOptions {
+    /** Vault-relative path of the log file. */
+    path: string
+    /** Minimum level written to the file; if unset, every record is written. */
+    level?: LogLevel
+    /** Formatter for each line (default: `formatText`). */
+    formatter?: LogFormatter
+    /** Size in bytes at which the file is rotated (default: 1 MiB). */
+    maxSize?: number
+    /** Number of rotated files to keep, e.g. `debug.log.1` (default: 3). */
+    maxFiles?: number
+    /** Milliseconds to collect records before writing them (default: 1000). */
+    flushDelay?: number
+}
+
+/** A log file setting, as stored by PluginConfig. */
+export interface LogFileSettings {
+    enabled: boolean
+    /** Vault-relative path of the log file; empty for the default location. */
+    path: string
+}
+
+/**
+ * Appends log records to a file in the vault.
+ *
+ * Records are buffered and written in batches, so logging never waits on the
+ * file system. When the file would grow past `maxSize`, it is renamed to
+ * `<path>.1` (shifting older files up) and a new file is started.
+ */
+export class FileSink implements LogSink {
+    level?: LogLevel
+
+    private adapter: DataAdapter
+    private _path: string
+    private formatter: LogFormatter
+    private maxSize: number
+    private maxFiles: number
+    private flushDelay: number
+
+    private buffer: string[] = []
+    private timer: ReturnType<typeof setTimeout> | null = null
+    private writing: Promise<void> = Promise.resolve()
+    private folderReady: boolean = false
+
+    constructor(adapter: DataAdapter, options: FileSinkOptions) {
+        this.adapter = adapter
+        this._path = normalizePath(options.path)
+        if (options.level !== undefined) this.level = options.level
+        this.formatter = options.formatter ?? formatText
+        this.maxSize = options.maxSize ?? 1024 * 1024
+        this.maxFiles = options.maxFiles ?? 3
+        this.flushDelay = options.flushDelay ?? 1000
+    }
+
+    /**
+     * Vault-relative path of the current log file.
+     */
+    get path(): string {
+        return this._path
+    }
+
+    write(record: LogRecord): void {
+        this.buffer.push(`${this.formatter(record)}\n`)
+
+        if (this.timer === null) {
+            this.timer = setTimeout(() => {
+                this.timer = null
+                void this.flush()
+            }, this.flushDelay)
+        }
+    }
+
+    /**
+     * Write buffered records now. Resolves once they are on disk.
+     *
+     * Write failures are reported to the console rather than the Logger, so
+     * a broken log file cannot cause more logging.
+     */
+    flush(): Promise<void> {
+        if (this.timer !== null) {
+            clearTimeout(this.timer)
+            this.timer = null
+        }
+
+        this.writing = this.writing
+            .then(() => this.writeBuffer())
+            .catch(err => console.error(`Failed to write log file: ${this._path}`, err))
+
+        return this.writing
+    }
+
+    private async writeBuffer(): Promise<void> {
+        if (this.buffer.length === 0) return
+
+        const data = this.buffer.join("")
+        this.buffer = []
+
+        await this.ensureFolder()
+
+        const stat = await this.adapter.stat(this._path)
+
+        if (stat && stat.size > 0 && stat.size + utf8Length(data) > this.maxSize) {
+            await this.rotate()
+            await this.adapter.write(this._path, data)
+        } else if (stat) {
+            await this.adapter.append(this._path, data)
+        } else {
+            await this.adapter.write(this._path, data)
+        }
+    }
+
+    /**
+     * Shift `<path>.N` to `<path>.N+1`, dropping the oldest, then move the
+     * current file to `<path>.1`.
+     */
+    private async rotate(): Promise<void> {
+        const oldest = this.maxFiles > 0 ? `${this._path}.${this.maxFiles}` : this._path
+
+        if (await this.adapter.exists(oldest)) {
+            await this.adapter.remove(oldest)
+        }
+
+        for (let index = this.maxFiles - 1; index >= 0; index--) {
+            const from = index === 0 ? this._path : `${this._path}.${index}`
+
+            if (await this.adapter.exists(from)) {
+                await this.adapter.rename(from, `${this._path}.${index + 1}`)
+            }
+        }
+    }
+
+    private async ensureFolder(): Promise<void> {
+        if (this.folderReady) return
+
+        const folder = this._path.slice(0, Math.max(this._path.lastIndexOf("/"), 0))
+
+        if (folder && !(await this.adapter.exists(folder))) {
+            await this.adapter.mkdir(folder)
+        }
+
+        this.folderReady = true
+    }
+}
+
+/**
+ * Default log file location, inside the plugin's folder.
+ */
+export function defaultLogPath(plugin: Plugin): string {
+    const dir = plugin.manifest.dir ?? `${plugin.app.vault.configDir}/plugins/${plugin.manifest.id}`
+
+    return normalizePath(`${dir}/debug.log`)
+}
+
+/**
+ * Write log records to a file while the `LogFileSettings` value at a dotted
+ * path is enabled, following changes to the setting. The file is flushed
+ * when the setting is turned off or the plugin unloads.
+ */
+export function bindLogFile<T extends Record<string, unknown>>(
+    plugin: Plugin,
+    config: PluginConfig<T>,
+    path: string,
+    options: Omit<FileSinkOptions, "path"> = {}
+): void {
+    let sink: FileSink | null = null
+    let removeSink: (() => void) | null = null
+
+    const stop = () => {
+        removeSink?.()
+        void sink?.flush()
+        sink = null
+        removeSink = null
+    }
+
+    const apply = () => {
+        const settings = readLogFileSettings(config, path)
+        const file = settings.path ? normalizePath(settings.path) : defaultLogPath(plugin)
+
+        if (sink && (!settings.enabled || sink.path !== file)) {
+            stop()
+        }
+
+        if (settings.enabled && !sink) {
+            sink = new FileSink(plugin.app.vault.adapter, { ...options, path: file })
+            removeSink = Logger.addSink(sink)
+        }
+    }
+
+    apply()
+
+    const unsubscribe = config.store.onAnyChange(changes => {
+        if (changes.some(change => pathsOverlap(change.path, path))) {
+            apply()
+        }
+    })
+
+    plugin.register(() => {
+        unsubscribe()
+        stop()
+    })
+}
+
+/** Options for a LogFileSetting. */
+export interface LogFileSettingOptions<T extends Record<string, unknown>> {
+    plugin: Plugin
+    config: PluginConfig<T>
+    /** Dotted path of the `LogFileSettings` value. */
+    path: string
+    name?: string
+    description?: string
+}
+
+/**
+ * Path input and toggle for writing log messages to a file in the vault.
+ *
+ * Use with `bindLogFile()` to apply the setting.
+ */
+export class LogFileSetting<T extends Record<string, unknown>> {
+    private options: LogFileSettingOptions<T>
+
+    private logger: Logger = Logger.getLogger("settings")
+
+    constructor(options: LogFileSettingOptions<T>) {
+        this.options = options
+    }
+
+    /**
+     * Creates the setting element in the provided container.
+     */
+    display(containerEl: HTMLElement): Setting {
+        const { plugin, config, path, name, description } = this.options
+        const settings = readLogFileSettings(config, path)
+
+        return new Setting(containerEl)
+            .setName(name ?? "Log file")
+            .setDesc(description ?? "Write log messages to a file in the vault for bug reports.")
+            .addText(text => {
+                text.setPlaceholder(defaultLogPath(plugin))
+                text.setValue(settings.path)
+                // apply the path once editing is done; partial paths would each start a log file
+                text.inputEl.addEventListener("change", () => {
+                    void this.update({ path: text.getValue().trim() })
+                })
+            })
+            .addToggle(toggle => {
+                toggle.setValue(settings.enabled)
+                toggle.onChange(value => this.update({ enabled: value }))
+            })
+    }
+
+    private async update(changes: Partial<LogFileSettings>): Promise<void> {
+        const { plugin, config, path } = this.options
+
+        setPath(config.store.value, path, { ...readLogFileSettings(config, path), ...changes })
+
+        try {
+            await config.save(plugin, config.store.value)
+        } catch (err) {
+            this.logger.error("Failed to save log file setting", err)
+            new Notice(`Failed to save setting: ${err instanceof Error ? err.message : err}`)
+        }
+    }
+}
+
+function readLogFileSettings<T extends Record<string, unknown>>(
+    config: PluginConfig<T>,
+    path: string
+): LogFileSettings {
+    const value = getPath(config.store.value, path)
+
+    return {
+        enabled: isPlainObject(value) && value.enabled === true,
+        path: isPlainObject(value) && typeof value.path === "string" ? value.path : "",
+    }
+}
+
+/**
+ * The length of a string in bytes when encoded as UTF-8.
+ */
+function utf8Length(text: string): number {
+    let bytes = 0
+
+    for (const char of text) {
+        const code = char.codePointAt(0) ?? 0
+        bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4
+    }
+
+    return bytes
+}
@@ -0,0 +1,169 @@
+import { Component } from "obsidian"
+
+import { deepEqual } from "./objects"
+import { SettingsChange } from "./store"
+
+/** A group of settings changes that are undone and redone together. */
+export interface HistoryEntry {
+    /** Time of the most recent change in the entry, in milliseconds since the epoch. */
+    timestamp: number
+    changes: SettingsChange[]
+}
+
+/** Options for creating a SettingsHistory. */
+export interface HistoryOptions {
+    /** Maximum number of entries to keep (default: 50). */
+    limit?: number
+    /**
+     * Changes to the same paths within this many milliseconds are merged into
+     * a single entry, e.g. while dragging a slider (default: 1000).
+     */
+    mergeWindow?: number
+}
+
+/**
+ * Bounded undo/redo history of settings changes.
+ */
+export class SettingsHistory {
+    private limit: number
+    private mergeWindow: number
+
+    private undoStack: HistoryEntry[] = []
+    private redoStack: HistoryEntry[] = []
+    private listeners: Set<() => void> = new Set()
+
+    constructor(options: HistoryOptions = {}) {
+        this.limit = options.limit ?? 50
+        this.mergeWindow = options.mergeWindow ?? 1000
+    }
+
+    /**
+     * Entries that can be undone, most recent first.
+     */
+    get entries(): HistoryEntry[] {
+        return [...this.undoStack].reverse()
+    }
+
+    get canUndo(): boolean {
+        return this.undoStack.length > 0
+    }
+
+    get canRedo(): boolean {
+        return this.redoStack.length > 0
+    }
+
+    /**
+     * Add changes to the history, discarding anything that could be redone.
+     */
+    record(changes: SettingsChange[], timestamp: number = Date.now()): void {
+        if (changes.length === 0 || this.limit <= 0) return
+
+        const last = this.undoStack[this.undoStack.length - 1]
+
+        if (last && this.canMerge(last, changes, timestamp)) {
+            last.changes = mergeChanges(last.changes, changes)
+            last.timestamp = timestamp
+
+            // merged changes that cancel out leave nothing to undo
+            if (last.changes.length === 0) {
+                this.undoStack.pop()
+            }
+        } else {
+            this.undoStack.push({ timestamp, changes: [...changes] })
+        }
+
+        if (this.undoStack.length > this.limit) {
+            this.undoStack.splice(0, this.undoStack.length - this.limit)
+        }
+
+        this.redoStack = []
+        this.notify()
+    }
+
+    /**
+     * Take the most recent entry off the undo stack. The caller is
+     * responsible for restoring each change's `oldValue`.
+     */
+    undo(): HistoryEntry | null {
+        const entry = this.undoStack.pop()
+        if (!entry) return null
+
+        this.redoStack.push(entry)
+        this.notify()
+
+        return entry
+    }
+
+    /**
+     * Take the most recently undone entry off the redo stack. The caller is
+     * responsible for restoring each change's `newValue`.
+     */
+    redo(): HistoryEntry | null {
+        const entry = this.redoStack.pop()
+        if (!entry) return null
+
+        this.undoStack.push(entry)
+        this.notify()
+
+        return entry
+    }
+
+    /**
+     * Discard all entries.
+     */
+    clear(): void {
+        this.undoStack = []
+        this.redoStack = []
+        this.notify()
+    }
+
+    /**
+     * Listen for changes to the history.
+     *
+     * If a component is given, the listener is removed when it unloads.
+     * Returns a function that removes the listener.
+     */
+    onChange(callback: () => void, component?: Component): () => void {
+        this.listeners.add(callback)
+
+        const unsubscribe = () => {
+            this.listeners.delete(callback)
+        }
+
+        component?.register(unsubscribe)
+
+        return unsubscribe
+    }
+
+    private canMerge(last: HistoryEntry, changes: SettingsChange[], timestamp: number): boolean {
+        if (timestamp - last.timestamp > this.mergeWindow) return false
+
+        return changes.every(change => last.changes.some(previous => previous.path === change.path))
+    }
+
+    private notify(): void {
+        for (const listener of [...this.listeners]) {
+            listener()
+        }
+    }
+}
+
+/**
+ * Combine two consecutive sets of changes, keeping the original old value
+ * and the latest new value for each path.
+ */
+function mergeChanges(first: SettingsChange[], second: SettingsChange[]): SettingsChange[] {
+    const merged = first.map(change => ({ ...change }))
+
+    for (const change of second) {
+        const existing = merged.find(previous => previous.path === change.path)
+
+        if (existing) {
+            existing.newValue = change.newValue
+        } else {
+            merged.push(change)
+        }
+    }
+
+    return merged.filter(change => !deepEqual(change.oldValue, change.newValue))
+}
@@ -1,5 +1,16 @@
 // obskit - module entry point
 
+export * from "./commands"
 export * from "./config"
+export * from "./diagnostics"
+export * from "./errors"
+export * from "./filesink"
+export * from "./history"
 export * from "./logger"
+export * from "./logview"
+export * from "./paths"
+export * from "./profiles"
+export * from "./schema"
 export * from "./settings"
+export * from "./store"
+export * from "./validation"
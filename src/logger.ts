@@ -1,5 +1,9 @@
 // basic logging framework
 
+import { Component } from "obsidian"
+
+const REDACTED = "[REDACTED]"
+
 export enum LogLevel {
     DEBUG = 30,
     INFO = 20,
@@ -8,33 +12,303 @@ export enum LogLevel {
     SILENT = -1,
 }
 
+/** A single log message, as delivered to sinks. */
+export interface LogRecord {
+    level: LogLevel
+    /** Name of the logger that produced the record. */
+    logger: string
+    message: string
+    args: unknown[]
+    /** Fields bound to the logger with `Logger.with()`. */
+    context: Record<string, unknown>
+    /** Time the record was created, in milliseconds since the epoch. */
+    timestamp: number
+}
+
+/** Destination for log records. */
+export interface LogSink {
+    /** Minimum level this sink accepts; if unset, it accepts every record. */
+    level?: LogLevel
+    write(record: LogRecord): void
+}
+
+/** Turns a log record into a single line of output. */
+export type LogFormatter = (record: LogRecord) => string
+
+/** Plain data form of an `Error`, suitable for JSON output. */
+export interface SerializedError {
+    name: string
+    message: string
+    stack?: string
+    cause?: unknown
+}
+
+/**
+ * Convert an error (and its chain of causes) to plain data.
+ */
+export function serializeError(error: Error): SerializedError {
+    const serialized: SerializedError = { name: error.name, message: error.message }
+    const cause = (error as { cause?: unknown }).cause
+
+    if (error.stack) serialized.stack = error.stack
+    if (cause !== undefined) {
+        serialized.cause = cause instanceof Error ? serializeError(cause) : cause
+    }
+
+    return serialized
+}
+
+/**
+ * Describe an error with its stack (or name and message) and its chain of
+ * causes, e.g. for a bug report.
+ */
+export function formatError(error: Error): string {
+    const cause = (error as { cause?: unknown }).cause
+    const text = error.stack ?? `${error.name}: ${error.message}`
+
+    return cause === undefined ? text : `${text}\nCaused by: ${textValue(cause)}`
+}
+
+/**
+ * Format a record as text, e.g.
+ * `2024-01-01T00:00:00.000Z [INFO] config -- Settings saved file=data.json`.
+ *
+ * Context fields follow the message as `key=value` pairs, then the
+ * arguments. Errors are written with their stack and causes.
+ */
+export const formatText: LogFormatter = record => {
+    const parts = [
+        `${new Date(record.timestamp).toISOString()} [${LogLevel[record.level]}] ${record.logger} -- ${record.message}`,
+    ]
+
+    for (const key of Object.keys(record.context)) {
+        parts.push(`${key}=${textValue(record.context[key])}`)
+    }
+
+    for (const arg of record.args) {
+        parts.push(textValue(arg))
+    }
+
+    return parts.join(" ")
+}
+
+/**
+ * Format a record as a single line of JSON, for JSON lines output.
+ * Empty context and arguments are left out.
+ */
+export const formatJson: LogFormatter = record => {
+    const entry: Record<string, unknown> = {
+        time: new Date(record.timestamp).toISOString(),
+        level: LogLevel[record.level],
+        logger: record.logger,
+        message: record.message,
+    }
+
+    if (Object.keys(record.context).length > 0) entry.context = record.context
+    if (record.args.length > 0) entry.args = record.args
+
+    try {
+        return JSON.stringify(entry, jsonReplacer)
+    } catch {
+        // e.g. circular arguments
+        entry.args = record.args.map(textValue)
+        return JSON.stringify(entry, jsonReplacer)
+    }
+}
+
+/**
+ * Writes records to the developer console.
+ *
+ * Without a formatter, records are written as text with the arguments passed
+ * through as-is, so objects can still be inspected in the console.
+ */
+export class ConsoleSink implements LogSink {
+    level?: LogLevel
+
+    private formatter: LogFormatter | undefined
+
+    constructor(level?: LogLevel, formatter?: LogFormatter) {
+        if (level !== undefined) this.level = level
+        this.formatter = formatter
+    }
+
+    write(record: LogRecord): void {
+        if (this.formatter) {
+            console.log(this.formatter(record))
+        } else {
+            console.log(formatText({ ...record, args: [] }), ...record.args)
+        }
+    }
+}
+
+/**
+ * Keeps the most recent records in memory, e.g. for bug reports.
+ */
+export class MemorySink implements LogSink {
+    level?: LogLevel
+
+    private capacity: number
+    private buffer: LogRecord[] = []
+    private listeners: Set<() => void> = new Set()
+
+    constructor(capacity: number = 1000, level?: LogLevel) {
+        this.capacity = capacity
+        if (level !== undefined) this.level = level
+    }
+
+    /**
+     * Buffered records, oldest first.
+     */
+    get records(): LogRecord[] {
+        return [...this.buffer]
+    }
+
+    write(record: LogRecord): void {
+        this.buffer.push(record)
+
+        if (this.buffer.length > this.capacity) {
+            this.buffer.splice(0, this.buffer.length - this.capacity)
+        }
+
+        this.notify()
+    }
+
+    clear(): void {
+        this.buffer = []
+        this.notify()
+    }
+
+    /**
+     * Listen for records being added or cleared.
+     *
+     * If a component is given, the listener is removed when it unloads.
+     * Returns a function that removes the listener.
+     */
+    onChange(callback: () => void, component?: Component): () => void {
+        this.listeners.add(callback)
+
+        const unsubscribe = () => {
+            this.listeners.delete(callback)
+        }
+
+        component?.register(unsubscribe)
+
+        return unsubscribe
+    }
+
+    private notify(): void {
+        for (const listener of [...this.listeners]) {
+            listener()
+        }
+    }
+}
+
+/** Aggregated durations for one timing label. */
+export interface TimingStats {
+    count: number
+    /** Number of spans that threw or rejected. */
+    failures: number
+    /** Durations in milliseconds. */
+    total: number
+    min: number
+    max: number
+    avg: number
+}
+
+/** Running timers and collected statistics for a logger name. */
+interface TimingState {
+    timers: Map<string, number>
+    stats: Map<string, TimingStats>
+}
+
 export class Logger {
     private static loggers: Map<string, Logger> = new Map()
+    private static timing: Map<string, TimingState> = new Map()
     private static globalLogLevel: LogLevel = LogLevel.ERROR
+    private static redactors: Set<() => string[]> = new Set()
+    private static sinks: LogSink[] = [new ConsoleSink()]
+    private static levelOverrides: Map<string, LogLevel> = new Map()
+    private static levelListeners: Set<() => void> = new Set()
 
     private _name: string
-    private _logLevel: LogLevel
+    private _context: Record<string, unknown>
 
-    protected constructor(name: string, logLevel: LogLevel = LogLevel.SILENT) {
+    protected constructor(name: string, context: Record<string, unknown> = {}) {
         this._name = name
-        this._logLevel = logLevel
+        this._context = context
     }
 
     get name(): string {
         return this._name
     }
 
+    /**
+     * Fields added to every record from this logger.
+     */
+    get context(): Record<string, unknown> {
+        return { ...this._context }
+    }
+
+    /**
+     * The effective level: the override for this logger or its nearest
+     * ancestor, or the global level if there is none.
+     */
     get logLevel(): LogLevel {
-        return this._logLevel
+        let name = this._name
+
+        while (name) {
+            const level = Logger.levelOverrides.get(name)
+            if (level !== undefined) return level
+
+            const dot = name.lastIndexOf(".")
+            name = dot < 0 ? "" : name.slice(0, dot)
+        }
+
+        return Logger.globalLogLevel
+    }
+
+    /**
+     * Get a logger nested below this one, e.g. `config` -> `config.migrations`.
+     */
+    getChild(name: string): Logger {
+        const child = Logger.getLogger(name, this)
+
+        return Object.keys(this._context).length > 0 ? child.with(this._context) : child
+    }
+
+    /**
+     * Get a logger that adds the given fields to every record, in addition to
+     * any fields already bound to this one. Levels and sinks are shared with
+     * this logger.
+     */
+    with(context: Record<string, unknown>): Logger {
+        return new Logger(this._name, { ...this._context, ...context })
     }
 
     private shouldLog(level: LogLevel): boolean {
-        return level <= this._logLevel
+        return level <= this.logLevel
     }
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     log(level: string, message: string, ...args: any[]): void {
-        console.log(`[${level}] ${this._name} -- ${message}`, ...args)
+        const record: LogRecord = {
+            level: LogLevel[level as keyof typeof LogLevel] ?? LogLevel.INFO,
+            logger: this._name,
+            message: Logger.redact(message),
+            args: args.map(arg => Logger.redact(arg)),
+            context: Logger.redact(this.context),
+            timestamp: Date.now(),
+        }
+
+        for (const sink of Logger.sinks) {
+            if (sink.level !== undefined && record.level > sink.level) continue
+
+            try {
+                sink.write(record)
+            } catch (err) {
+                console.error("Log sink failed", err)
+            }
+        }
     }
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -65,28 +339,368 @@ export class Logger {
         }
     }
 
-    static getLogger(name: string): Logger {
+    /**
+     * Start a timer. Does nothing unless this logger shows DEBUG messages.
+     */
+    time(label: string): void {
+        if (!this.shouldLog(LogLevel.DEBUG)) return
+
+        this.timingState.timers.set(label, performance.now())
+    }
+
+    /**
+     * Stop a timer started with `time()`, log its duration at DEBUG and add
+     * it to the statistics. Returns the duration in milliseconds, or
+     * `undefined` if no timer was running.
+     */
+    timeEnd(label: string): number | undefined {
+        const timers = this.timingState.timers
+        const start = timers.get(label)
+        if (start === undefined) return undefined
+
+        timers.delete(label)
+
+        const duration = performance.now() - start
+        this.recordTiming(label, duration, false)
+        this.debug(`${label} took ${formatDuration(duration)}`)
+
+        return duration
+    }
+
+    /**
+     * Run a function and log how long it took at DEBUG, including when it
+     * fails. Errors are rethrown.
+     *
+     * When DEBUG messages are not shown, the function is simply called.
+     */
+    async span<T>(name: string, fn: () => T | Promise<T>): Promise<T> {
+        if (!this.shouldLog(LogLevel.DEBUG)) return fn()
+
+        const start = performance.now()
+
+        try {
+            const result = await fn()
+            const duration = performance.now() - start
+
+            this.recordTiming(name, duration, false)
+            this.debug(`${name} took ${formatDuration(duration)}`)
+
+            return result
+        } catch (err) {
+            const duration = performance.now() - start
+
+            this.recordTiming(name, duration, true)
+            this.debug(`${name} failed after ${formatDuration(duration)}`, err)
+
+            throw err
+        }
+    }
+
+    /**
+     * Statistics for each label timed by this logger.
+     */
+    getTimings(): Record<string, TimingStats> {
+        const timings: Record<string, TimingStats> = {}
+
+        this.timingState.stats.forEach((stats, label) => {
+            timings[label] = { ...stats }
+        })
+
+        return timings
+    }
+
+    /**
+     * Log the statistics for each label at DEBUG.
+     */
+    dumpTimings(): void {
+        const timings = this.getTimings()
+
+        for (const label of Object.keys(timings)) {
+            const { count, failures, min, avg, max } = timings[label]!
+
+            this.debug(
+                `${label}: count=${count} failures=${failures} ` +
+                    `min=${formatDuration(min)} avg=${formatDuration(avg)} max=${formatDuration(max)}`
+            )
+        }
+    }
+
+    /**
+     * Discard the statistics and running timers for this logger.
+     */
+    resetTimings(): void {
+        Logger.timing.delete(this._name)
+    }
+
+    /**
+     * Timers and statistics are shared by every logger with the same name,
+     * including those created with `with()`.
+     */
+    private get timingState(): TimingState {
+        let state = Logger.timing.get(this._name)
+
+        if (!state) {
+            state = { timers: new Map(), stats: new Map() }
+            Logger.timing.set(this._name, state)
+        }
+
+        return state
+    }
+
+    private recordTiming(label: string, duration: number, failed: boolean): void {
+        const stats = this.timingState.stats
+        const current = stats.get(label)
+
+        const count = (current?.count ?? 0) + 1
+        const total = (current?.total ?? 0) + duration
+
+        stats.set(label, {
+            count,
+            failures: (current?.failures ?? 0) + (failed ? 1 : 0),
+            total,
+            min: Math.min(current?.min ?? duration, duration),
+            max: Math.max(current?.max ?? duration, duration),
+            avg: total / count,
+        })
+    }
+
+    /**
+     * Get the logger with a dotted name, creating it if needed.
+     *
+     * If a parent is given, the name is relative to the parent's name.
+     */
+    static getLogger(name: string, parent?: Logger): Logger {
+        const fullName = parent ? `${parent.name}.${name}` : name
         let logger: Logger
 
-        if (Logger.loggers.has(name)) {
-            logger = Logger.loggers.get(name)!
+        if (Logger.loggers.has(fullName)) {
+            logger = Logger.loggers.get(fullName)!
         } else {
-            logger = new Logger(name, Logger.globalLogLevel)
-            Logger.loggers.set(name, logger)
+            logger = new Logger(fullName)
+            Logger.loggers.set(fullName, logger)
         }
 
         return logger
     }
 
+    /**
+     * Set the level used by loggers without an override.
+     */
     static setGlobalLogLevel(level: LogLevel): void {
         Logger.globalLogLevel = level
-
-        for (const logger of Logger.loggers.values()) {
-            logger._logLevel = level
-        }
     }
 
     static getGlobalLogLevel(): LogLevel {
         return Logger.globalLogLevel
     }
+
+    /**
+     * Override the level of a logger and every logger below it.
+     *
+     * Overrides take precedence over the global level, and more specific
+     * names take precedence over their ancestors.
+     */
+    static setLogLevel(name: string, level: LogLevel): void {
+        if (Logger.levelOverrides.get(name) === level) return
+
+        Logger.levelOverrides.set(name, level)
+        Logger.notifyLevelsChanged()
+    }
+
+    /**
+     * Remove the level override for a logger, so it inherits again.
+     */
+    static clearLogLevel(name: string): void {
+        if (Logger.levelOverrides.delete(name)) {
+            Logger.notifyLevelsChanged()
+        }
+    }
+
+    /**
+     * All level overrides, keyed by logger name.
+     */
+    static getLogLevels(): Record<string, LogLevel> {
+        const levels: Record<string, LogLevel> = {}
+
+        Logger.levelOverrides.forEach((level, name) => {
+            levels[name] = level
+        })
+
+        return levels
+    }
+
+    /**
+     * Replace all level overrides, e.g. with ones loaded from settings.
+     */
+    static setLogLevels(levels: Record<string, LogLevel>): void {
+        const next = new Map<string, LogLevel>()
+
+        for (const name of Object.keys(levels)) {
+            const level = levels[name]
+            if (level !== undefined && LogLevel[level] !== undefined) {
+                next.set(name, level)
+            }
+        }
+
+        const same =
+            next.size === Logger.levelOverrides.size &&
+            Array.from(next).every(([name, level]) => Logger.levelOverrides.get(name) === level)
+
+        if (!same) {
+            Logger.levelOverrides = next
+            Logger.notifyLevelsChanged()
+        }
+    }
+
+    /**
+     * Listen for changes to the level overrides. Returns a function that
+     * removes the listener.
+     */
+    static onLogLevelsChange(callback: () => void): () => void {
+        Logger.levelListeners.add(callback)
+
+        return () => {
+            Logger.levelListeners.delete(callback)
+        }
+    }
+
+    private static notifyLevelsChanged(): void {
+        for (const listener of [...Logger.levelListeners]) {
+            listener()
+        }
+    }
+
+    /**
+     * Send log records to a sink, in addition to the existing sinks.
+     *
+     * Records are filtered by each logger's level first, then by the sink's
+     * own level. Returns a function that removes the sink.
+     */
+    static addSink(sink: LogSink): () => void {
+        Logger.sinks.push(sink)
+
+        return () => Logger.removeSink(sink)
+    }
+
+    /**
+     * Stop sending log records to a sink, including the default console sink.
+     */
+    static removeSink(sink: LogSink): void {
+        Logger.sinks = Logger.sinks.filter(s => s !== sink)
+    }
+
+    /**
+     * The registered sinks, starting with the default console sink.
+     */
+    static getSinks(): LogSink[] {
+        return [...Logger.sinks]
+    }
+
+    /**
+     * Register a function that returns secret values to hide from log output.
+     *
+     * The function is called each time something is logged, so it should
+     * return the current secrets. Returns a function that removes it.
+     */
+    static addRedactor(provider: () => string[]): () => void {
+        Logger.redactors.add(provider)
+
+        return () => {
+            Logger.redactors.delete(provider)
+        }
+    }
+
+    /**
+     * Replace registered secrets in a value, descending into plain objects,
+     * arrays and errors. Other objects, such as class instances, are left as
+     * they are. The original value is never modified.
+     */
+    static redact<T>(value: T): T {
+        const secrets: string[] = []
+        for (const provider of Logger.redactors) {
+            secrets.push(...provider().filter(secret => secret !== ""))
+        }
+
+        return secrets.length > 0 ? (redactValue(value, secrets) as T) : value
+    }
+}
+
+function redactString(value: string, secrets: string[]): string {
+    return secrets.reduce((text, secret) => text.split(secret).join(REDACTED), value)
+}
+
+function redactValue(
+    value: unknown,
+    secrets: string[],
+    copies: WeakMap<object, unknown> = new WeakMap()
+): unknown {
+    if (typeof value === "string") {
+        return redactString(value, secrets)
+    }
+
+    if (typeof value !== "object" || value === null) {
+        return value
+    }
+
+    // objects seen before map to their copy, so circular references are kept
+    if (copies.has(value)) {
+        return copies.get(value)
+    }
+
+    if (Array.isArray(value)) {
+        const result: unknown[] = []
+        copies.set(value, result)
+        value.forEach(item => result.push(redactValue(item, secrets, copies)))
+        return result
+    }
+
+    if (value instanceof Error) {
+        const error = Object.create(Object.getPrototypeOf(value)) as Error
+        copies.set(value, error)
+        for (const key of Object.getOwnPropertyNames(value)) {
+            const descriptor = Object.getOwnPropertyDescriptor(value, key)!
+            if ("value" in descriptor) {
+                descriptor.value = redactValue(descriptor.value, secrets, copies)
+            }
+            Object.defineProperty(error, key, descriptor)
+        }
+        return error
+    }
+
+    // class instances, maps, sets and the like are passed through untouched
+    const proto = Object.getPrototypeOf(value)
+    if (proto === Object.prototype || proto === null) {
+        const result: Record<string, unknown> = {}
+        copies.set(value, result)
+        for (const key of Object.keys(value)) {
+            result[key] = redactValue((value as Record<string, unknown>)[key], secrets, copies)
+        }
+        return result
+    }
+
+    return value
+}
+
+function textValue(value: unknown): string {
+    if (typeof value === "string") {
+        return value
+    }
+
+    if (value instanceof Error) {
+        return formatError(value)
+    }
+
+    try {
+        return JSON.stringify(value, jsonReplacer) ?? String(value)
+    } catch {
+        return String(value)
+    }
+}
+
+function jsonReplacer(_key: string, value: unknown): unknown {
+    return value instanceof Error ? serializeError(value) : value
+}
+
+function formatDuration(ms: number): string {
+    return `${ms.toFixed(1)}ms`
 }
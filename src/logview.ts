@@ -0,0 +1,265 @@
+import { App, Modal, Notice, Plugin, Setting } from "obsidian"
+
+import { formatText, Logger, LogLevel, LogRecord, MemorySink } from "./logger"
+import { SettingsTabPage } from "./settings"
+
+/** Criteria for the records shown in a log view. */
+export interface LogFilter {
+    /** Least severe level to show; e.g. `WARN` shows warnings and errors. */
+    level?: LogLevel
+    /** Only show records from this logger and the loggers below it. */
+    logger?: string
+    /** Case-insensitive text to look for in the formatted record. */
+    search?: string
+}
+
+/** Options for a LogView. */
+export interface LogViewOptions {
+    /** Buffer of recent records, registered with `Logger.addSink()`. */
+    sink: MemorySink
+    /** Maximum number of records to list (default: 500). */
+    limit?: number
+    /** Initial filter settings. */
+    filter?: LogFilter
+}
+
+/**
+ * Select the records that match a filter, oldest first.
+ */
+export function filterLogRecords(records: LogRecord[], filter: LogFilter): LogRecord[] {
+    const { level, logger } = filter
+    const search = filter.search?.trim().toLowerCase()
+
+    return records.filter(record => {
+        if (level !== undefined && record.level > level) return false
+        if (logger && record.logger !== logger && !record.logger.startsWith(`${logger}.`)) {
+            return false
+        }
+        if (search && formatText(record).toLowerCase().indexOf(search) < 0) return false
+        return true
+    })
+}
+
+/**
+ * Format records as a fenced code block for pasting into an issue.
+ */
+export function formatLogReport(records: LogRecord[]): string {
+    return ["```text", ...records.map(formatText), "```"].join("\n")
+}
+
+/**
+ * Recent log records with level and logger filters, text search, live
+ * tailing and a copy button.
+ *
+ * Only records that pass the loggers' levels reach the sink, so set the
+ * global level (or a per-logger override) to `DEBUG` to see everything.
+ */
+export class LogView {
+    private options: LogViewOptions
+    private filter: LogFilter
+    private tail: boolean = true
+
+    private logger: Logger = Logger.getLogger("logview")
+
+    constructor(options: LogViewOptions) {
+        this.options = options
+        this.filter = { ...options.filter }
+    }
+
+    /**
+     * Records that match the current filter, oldest first.
+     */
+    get records(): LogRecord[] {
+        const records = filterLogRecords(this.options.sink.records, this.filter)
+        return records.slice(-(this.options.limit ?? 500))
+    }
+
+    /**
+     * Creates the log view in the provided container.
+     *
+     * While tailing, the list updates as records arrive, until the view is
+     * removed from the document.
+     */
+    display(containerEl: HTMLElement): HTMLElement {
+        const viewEl = containerEl.createDiv({ cls: "obskit-log-view" })
+
+        this.displayControls(viewEl)
+        const entriesEl = viewEl.createDiv({ cls: "obskit-log-entries" })
+        this.renderEntries(entriesEl)
+
+        const unsubscribe = this.options.sink.onChange(() => {
+            if (!viewEl.isConnected) {
+                unsubscribe()
+            } else if (this.tail) {
+                this.renderEntries(entriesEl)
+            }
+        })
+
+        return viewEl
+    }
+
+    private displayControls(viewEl: HTMLElement): void {
+        const controlsEl = viewEl.createDiv({ cls: "obskit-log-controls" })
+        const refresh = () => {
+            const entriesEl = viewEl.querySelector<HTMLElement>(".obskit-log-entries")
+            if (entriesEl) this.renderEntries(entriesEl)
+        }
+
+        new Setting(controlsEl).setName("Level").addDropdown(dropdown => {
+            dropdown.addOption("", "All")
+            for (const level of [LogLevel.ERROR, LogLevel.WARN, LogLevel.INFO, LogLevel.DEBUG]) {
+                dropdown.addOption(String(level), LogLevel[level])
+            }
+            dropdown.setValue(this.filter.level === undefined ? "" : String(this.filter.level))
+            dropdown.onChange(value => {
+                if (value === "") {
+                    delete this.filter.level
+                } else {
+                    this.filter.level = Number(value) as LogLevel
+                }
+                refresh()
+            })
+        })
+
+        new Setting(controlsEl).setName("Logger").addDropdown(dropdown => {
+            dropdown.addOption("", "All")
+            for (const name of this.loggerNames()) {
+                dropdown.addOption(name, name)
+            }
+            dropdown.setValue(this.filter.logger ?? "")
+            dropdown.onChange(value => {
+                if (value === "") {
+                    delete this.filter.logger
+                } else {
+                    this.filter.logger = value
+                }
+                refresh()
+            })
+        })
+
+        new Setting(controlsEl).setName("Search").addText(text => {
+            text.setPlaceholder("Filter messages...")
+            text.setValue(this.filter.search ?? "")
+            text.onChange(value => {
+                this.filter.search = value
+                refresh()
+            })
+        })
+
+        new Setting(controlsEl)
+            .setName("Follow")
+            .setDesc("Show new entries as they are logged.")
+            .addToggle(toggle => {
+                toggle.setValue(this.tail)
+                toggle.onChange(value => {
+                    this.tail = value
+                    if (value) refresh()
+                })
+            })
+            .addExtraButton(button => {
+                button.setIcon("copy")
+                button.setTooltip("Copy to clipboard")
+                button.onClick(() => this.copy())
+            })
+            .addExtraButton(button => {
+                button.setIcon("trash")
+                button.setTooltip("Clear")
+                button.onClick(() => {
+                    this.options.sink.clear()
+                    refresh()
+                })
+            })
+    }
+
+    private renderEntries(entriesEl: HTMLElement): void {
+        entriesEl.empty()
+
+        const records = this.records
+
+        if (records.length === 0) {
+            entriesEl.createDiv({ cls: "obskit-log-empty", text: "No log entries." })
+            return
+        }
+
+        for (const record of records) {
+            entriesEl.createDiv({
+                cls: ["obskit-log-entry", `obskit-log-${LogLevel[record.level].toLowerCase()}`],
+                text: formatText(record),
+            })
+        }
+
+        entriesEl.scrollTop = entriesEl.scrollHeight
+    }
+
+    private loggerNames(): string[] {
+        const names: string[] = []
+
+        for (const record of this.options.sink.records) {
+            if (names.indexOf(record.logger) < 0) names.push(record.logger)
+        }
+
+        return names.sort()
+    }
+
+    private async copy(): Promise<void> {
+        const records = this.records
+
+        try {
+            await navigator.clipboard.writeText(formatLogReport(records))
+            new Notice(`Copied ${records.length} log entries`)
+        } catch (err) {
+            this.logger.error("Failed to copy logs", err)
+            new Notice(`Failed to copy logs: ${err instanceof Error ? err.message : err}`)
+        }
+    }
+}
+
+/**
+ * Settings tab page showing recent log records.
+ */
+export class LogViewTabPage extends SettingsTabPage {
+    private options: LogViewOptions
+
+    constructor(options: LogViewOptions, name: string = "Logs") {
+        super(name)
+        this.options = options
+    }
+
+    display(containerEl: HTMLElement): void {
+        new LogView(this.options).display(containerEl)
+    }
+}
+
+/**
+ * Modal showing recent log records.
+ */
+export class LogViewModal extends Modal {
+    private options: LogViewOptions
+
+    constructor(app: App, options: LogViewOptions) {
+        super(app)
+        this.options = options
+    }
+
+    onOpen(): void {
+        this.setTitle("Logs")
+        new LogView(this.options).display(this.contentEl)
+    }
+
+    onClose(): void {
+        this.contentEl.empty()
+    }
+}
+
+/**
+ * Register a command-palette command that opens a LogViewModal.
+ */
+export function addShowLogsCommand(plugin: Plugin, options: LogViewOptions): void {
+    plugin.addCommand({
+        id: "show-logs",
+        name: "Show logs",
+        callback: () => {
+            new LogViewModal(plugin.app, options).open()
+        },
+    })
+}
@@ -0,0 +1,34 @@
+// object helpers shared across modules
+
+/**
+ * Check if a value is a plain object (not an array, null, Date, etc.).
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        !(value instanceof Date) &&
+        !(value instanceof RegExp)
+    )
+}
+
+/**
+ * Compare two values structurally. Plain objects and arrays are compared
+ * recursively; everything else uses `Object.is`.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+    if (Object.is(a, b)) return true
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]))
+    }
+
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = Object.keys(a)
+        if (keys.length !== Object.keys(b).length) return false
+        return keys.every(key => key in b && deepEqual(a[key], b[key]))
+    }
+
+    return false
+}
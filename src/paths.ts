@@ -0,0 +1,148 @@
+// typed dotted-path helpers for nested settings
+
+import { isPlainObject } from "./objects"
+
+type Primitive = string | number | boolean | bigint | symbol | null | undefined
+
+type Leaf = Primitive | readonly unknown[] | Date | RegExp
+
+type Depth = [never, 0, 1, 2, 3, 4, 5, 6, 7]
+
+/**
+ * The declared keys of `T`, leaving out index signatures such as
+ * `[key: string]: unknown`.
+ */
+type KnownKeys<T> = keyof {
+    [K in keyof T as string extends K ? never : number extends K ? never : K]: T[K]
+}
+
+/**
+ * All dotted paths into `T`, e.g. `"rendering" | "rendering.flow" | "rendering.flow.spacing"`.
+ *
+ * Only declared keys are included; index signatures are not descended into.
+ * Recursion is limited to eight levels of nesting.
+ */
+export type Path<T, D extends number = 8> = [D] extends [never]
+    ? never
+    : T extends Leaf
+      ? never
+      : {
+            [K in KnownKeys<T> & string]: T[K] extends Leaf ? K : K | `${K}.${Path<T[K], Depth[D]>}`
+        }[KnownKeys<T> & string]
+
+/**
+ * The type of the value found at dotted path `P` in `T`.
+ */
+export type PathValue<T, P extends string> = P extends `${infer K}.${infer R}`
+    ? K extends keyof T
+        ? PathValue<T[K], R>
+        : unknown
+    : P extends keyof T
+      ? T[P]
+      : unknown
+
+/**
+ * The dotted paths into `T` whose value is assignable to `V`, e.g.
+ * `PathOfType<Settings, boolean>` for the paths a toggle can bind to.
+ */
+export type PathOfType<T, V> = {
+    [P in Path<T>]: PathValue<T, P> extends V ? P : never
+}[Path<T>]
+
+/**
+ * Split a dotted path into its segments.
+ */
+export function splitPath(path: string): string[] {
+    return path === "" ? [] : path.split(".")
+}
+
+/**
+ * Read the value at a dotted path, or `undefined` if any segment is missing.
+ */
+export function getPath(obj: unknown, path: string): unknown {
+    let current: unknown = obj
+
+    for (const key of splitPath(path)) {
+        if (!isPlainObject(current)) return undefined
+        current = current[key]
+    }
+
+    return current
+}
+
+/**
+ * Check whether a dotted path exists in an object.
+ */
+export function hasPath(obj: unknown, path: string): boolean {
+    const keys = splitPath(path)
+    const last = keys.pop()
+    const parent = getPath(obj, keys.join("."))
+
+    return last !== undefined && isPlainObject(parent) && last in parent
+}
+
+/**
+ * Write a value at a dotted path, creating intermediate objects as needed.
+ */
+export function setPath(obj: Record<string, unknown>, path: string, value: unknown): void {
+    const keys = splitPath(path)
+    const last = keys.pop()
+
+    if (last === undefined) {
+        throw new Error("Cannot set an empty path")
+    }
+
+    let current = obj
+    for (const key of keys) {
+        const next = current[key]
+        if (!isPlainObject(next)) {
+            current[key] = {}
+        }
+        current = current[key] as Record<string, unknown>
+    }
+
+    current[last] = value
+}
+
+/**
+ * Remove the value at a dotted path. Returns `true` if a value was removed.
+ */
+export function deletePath(obj: Record<string, unknown>, path: string): boolean {
+    const keys = splitPath(path)
+    const last = keys.pop()
+    const parent = getPath(obj, keys.join("."))
+
+    if (last === undefined || !isPlainObject(parent) || !(last in parent)) {
+        return false
+    }
+
+    delete parent[last]
+    return true
+}
+
+/**
+ * Check whether two paths overlap, i.e. one is equal to or nested inside the other.
+ */
+export function pathsOverlap(a: string, b: string): boolean {
+    return a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`)
+}
+
+/**
+ * List the dotted paths of all leaf values in an object.
+ *
+ * Plain objects are descended into; anything else (including arrays and
+ * empty objects) is a leaf.
+ */
+export function leafPaths(obj: unknown, prefix: string = ""): string[] {
+    if (!isPlainObject(obj) || (prefix && Object.keys(obj).length === 0)) {
+        return prefix ? [prefix] : []
+    }
+
+    const paths: string[] = []
+
+    for (const key of Object.keys(obj)) {
+        paths.push(...leafPaths(obj[key], prefix ? `${prefix}.${key}` : key))
+    }
+
+    return paths
+}
@@ -0,0 +1,173 @@
+import { isPlainObject } from "./objects"
+
+/** Serialized form of a ProfileSet, as stored in `data.json`. */
+export interface ProfileData {
+    /** Name of the active profile, or `null` to use the shared base settings. */
+    active: string | null
+    /** Settings overrides for each profile, relative to the shared base. */
+    profiles: Record<string, Record<string, unknown>>
+}
+
+/**
+ * A collection of named settings profiles.
+ *
+ * Each profile stores only the values that differ from the shared base
+ * settings, so changes to the base flow into every profile that does not
+ * override them.
+ */
+export class ProfileSet {
+    private _active: string | null
+    private profiles: Map<string, Record<string, unknown>>
+
+    constructor(data?: ProfileData) {
+        const profiles = data?.profiles ?? {}
+
+        this.profiles = new Map()
+        for (const name of Object.keys(profiles)) {
+            this.profiles.set(name, structuredClone(profiles[name] ?? {}))
+        }
+
+        this._active = data?.active && this.profiles.has(data.active) ? data.active : null
+    }
+
+    /**
+     * Create a profile set from stored data, ignoring anything malformed.
+     */
+    static parse(value: unknown): ProfileSet {
+        if (!isPlainObject(value) || !isPlainObject(value.profiles)) {
+            return new ProfileSet()
+        }
+
+        const profiles: Record<string, Record<string, unknown>> = {}
+        for (const name of Object.keys(value.profiles)) {
+            const overrides = value.profiles[name]
+            if (isPlainObject(overrides)) {
+                profiles[name] = overrides
+            }
+        }
+
+        const active = typeof value.active === "string" ? value.active : null
+
+        return new ProfileSet({ active, profiles })
+    }
+
+    /**
+     * Name of the active profile, or `null` if the base settings are active.
+     */
+    get active(): string | null {
+        return this._active
+    }
+
+    /**
+     * Names of all profiles, in creation order.
+     */
+    get names(): string[] {
+        return [...this.profiles.keys()]
+    }
+
+    /**
+     * True if no profiles have been created.
+     */
+    get isEmpty(): boolean {
+        return this.profiles.size === 0
+    }
+
+    has(name: string): boolean {
+        return this.profiles.has(name)
+    }
+
+    /**
+     * Get the overrides for a profile.
+     */
+    overrides(name: string): Record<string, unknown> {
+        return this.profiles.get(name) ?? {}
+    }
+
+    /**
+     * Replace the overrides for an existing profile.
+     */
+    setOverrides(name: string, overrides: Record<string, unknown>): void {
+        this.require(name)
+        this.profiles.set(name, overrides)
+    }
+
+    /**
+     * Add a new profile with the given overrides.
+     */
+    create(name: string, overrides: Record<string, unknown> = {}): void {
+        this.checkNewName(name)
+        this.profiles.set(name, structuredClone(overrides))
+    }
+
+    /**
+     * Copy an existing profile under a new name.
+     */
+    duplicate(source: string, name: string): void {
+        this.require(source)
+        this.create(name, this.overrides(source))
+    }
+
+    /**
+     * Rename a profile, keeping its position and active state.
+     */
+    rename(from: string, to: string): void {
+        this.require(from)
+        if (from === to) return
+        this.checkNewName(to)
+
+        const renamed = new Map<string, Record<string, unknown>>()
+        for (const [name, overrides] of this.profiles) {
+            renamed.set(name === from ? to : name, overrides)
+        }
+        this.profiles = renamed
+
+        if (this._active === from) {
+            this._active = to
+        }
+    }
+
+    /**
+     * Remove a profile. If it was active, the base settings become active.
+     */
+    delete(name: string): void {
+        this.require(name)
+        this.profiles.delete(name)
+
+        if (this._active === name) {
+            this._active = null
+        }
+    }
+
+    /**
+     * Make a profile active, or pass `null` to use the base settings.
+     */
+    activate(name: string | null): void {
+        if (name !== null) {
+            this.require(name)
+        }
+        this._active = name
+    }
+
+    toJSON(): ProfileData {
+        const profiles: Record<string, Record<string, unknown>> = {}
+        for (const [name, overrides] of this.profiles) {
+            profiles[name] = overrides
+        }
+        return { active: this._active, profiles }
+    }
+
+    private require(name: string): void {
+        if (!this.profiles.has(name)) {
+            throw new Error(`No profile named: ${name}`)
+        }
+    }
+
+    private checkNewName(name: string): void {
+        if (name.trim() === "") {
+            throw new Error("Profile name cannot be empty")
+        }
+        if (this.profiles.has(name)) {
+            throw new Error(`Profile already exists: ${name}`)
+        }
+    }
+}
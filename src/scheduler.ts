@@ -0,0 +1,106 @@
+// debounced, serialized execution of async writes
+
+interface Waiter {
+    resolve: () => void
+    reject: (err: unknown) => void
+}
+
+/**
+ * Coalesces repeated save requests into as few writes as possible.
+ *
+ * Requests made within `delay` milliseconds of each other share a single
+ * write, and writes never overlap: a request made while a write is in flight
+ * is handled by a follow-up write once the current one completes. The write
+ * function is expected to read the latest state when called, so the last
+ * request always wins.
+ */
+export class SaveScheduler {
+    private write: () => Promise<void>
+    private delay: number
+
+    private timer: ReturnType<typeof setTimeout> | null = null
+    private inFlight: Promise<void> | null = null
+    private waiting: Waiter[] = []
+
+    constructor(write: () => Promise<void>, delay: number = 0) {
+        this.write = write
+        this.delay = delay
+    }
+
+    /**
+     * True if a write is scheduled or in progress.
+     */
+    get pending(): boolean {
+        return this.timer !== null || this.inFlight !== null || this.waiting.length > 0
+    }
+
+    /**
+     * Request a write. Resolves once a write that started after this call completes.
+     */
+    schedule(): Promise<void> {
+        const promise = new Promise<void>((resolve, reject) => {
+            this.waiting.push({ resolve, reject })
+        })
+
+        this.clearTimer()
+
+        if (this.delay > 0) {
+            this.timer = setTimeout(() => {
+                this.timer = null
+                this.run()
+            }, this.delay)
+        } else {
+            this.run()
+        }
+
+        return promise
+    }
+
+    /**
+     * Write any pending request immediately and wait for all writes to finish.
+     */
+    async flush(): Promise<void> {
+        this.clearTimer()
+
+        while (this.inFlight || this.waiting.length > 0) {
+            if (!this.inFlight) {
+                this.run()
+            }
+            await this.inFlight
+        }
+    }
+
+    private clearTimer(): void {
+        if (this.timer !== null) {
+            clearTimeout(this.timer)
+            this.timer = null
+        }
+    }
+
+    /**
+     * Start a write for everyone currently waiting, unless one is already running.
+     */
+    private run(): void {
+        if (this.inFlight || this.waiting.length === 0) return
+
+        const batch = this.waiting
+        this.waiting = []
+
+        this.inFlight = this.write().then(
+            () => batch.forEach(waiter => waiter.resolve()),
+            err => {
+                batch.forEach(waiter => waiter.reject(err))
+            }
+        )
+
+        // settles the batch before starting the next write (inFlight never rejects)
+        this.inFlight.then(() => {
+            this.inFlight = null
+
+            // requests made during the write are handled now, unless still debouncing
+            if (this.timer === null) {
+                this.run()
+            }
+        })
+    }
+}
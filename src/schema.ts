@@ -0,0 +1,351 @@
+import { PluginConfig } from "./config"
+import { Path, PathOfType, setPath } from "./paths"
+import {
+    DropdownSetting,
+    SecretSetting,
+    SettingsTabPage,
+    SliderSetting,
+    TextAreaSetting,
+    TextInputSetting,
+    ToggleSetting,
+} from "./settings"
+
+/**
+ * Fields shared by every declarative setting. `V` is the value type the
+ * control edits; only paths holding such a value are accepted.
+ */
+interface FieldBase<T, V = unknown> {
+    /** Dotted path of the setting in `T`. */
+    path: PathOfType<T, V>
+    name: string
+    description?: string
+}
+
+/** A toggle for a boolean setting. */
+export interface ToggleField<T> extends FieldBase<T, boolean> {
+    type: "toggle"
+}
+
+/** A slider for a numeric setting. */
+export interface SliderField<T> extends FieldBase<T, number> {
+    type: "slider"
+    min: number
+    max: number
+    /** Step between values (default: 1). */
+    step?: number
+}
+
+/** A single-line text input. */
+export interface TextField<T> extends FieldBase<T, string> {
+    type: "text"
+    /** Placeholder text (default: the setting's default value). */
+    placeholder?: string
+}
+
+/** A multi-line text input. */
+export interface TextAreaField<T> extends FieldBase<T, string> {
+    type: "textarea"
+    /** Placeholder text (default: the setting's default value). */
+    placeholder?: string
+}
+
+/** A masked input for a secret, see `PluginConfigOptions.secrets`. */
+export interface SecretField<T> extends FieldBase<T, string> {
+    type: "secret"
+}
+
+/** A dropdown for a setting with a fixed set of values. */
+export interface DropdownField<T> extends FieldBase<T> {
+    type: "dropdown"
+    options: { value: unknown; label: string }[]
+}
+
+/** A setting control generated from a schema. */
+export type SettingField<T> =
+    | ToggleField<T>
+    | SliderField<T>
+    | TextField<T>
+    | TextAreaField<T>
+    | SecretField<T>
+    | DropdownField<T>
+
+/**
+ * Anything that renders itself into a container, such as a `BaseSetting`
+ * subclass or one of the obskit setting components.
+ */
+export interface SettingDisplay {
+    display(containerEl: HTMLElement): unknown
+}
+
+/**
+ * An entry on a schema page: a generated field, a custom setting, or a
+ * function that renders into the page.
+ */
+export type SchemaItem<T> = SettingField<T> | SettingDisplay | ((containerEl: HTMLElement) => void)
+
+/** A settings tab page described by a schema. */
+export interface SchemaPage<T> {
+    name: string
+    settings: SchemaItem<T>[]
+}
+
+/**
+ * Pages of a settings tab. Existing `SettingsTabPage`s may be mixed in with
+ * the described ones.
+ */
+export type SettingsSchema<T> = (SchemaPage<T> | SettingsTabPage)[]
+
+/**
+ * Settings tab page that renders a schema page bound to a PluginConfig.
+ */
+export class SchemaSettingsPage<T extends Record<string, unknown>> extends SettingsTabPage {
+    private config: PluginConfig<T>
+    private page: SchemaPage<T>
+
+    constructor(config: PluginConfig<T>, page: SchemaPage<T>) {
+        super(page.name)
+        this.config = config
+        this.page = page
+    }
+
+    display(containerEl: HTMLElement): void {
+        for (const item of this.page.settings) {
+            if (typeof item === "function") {
+                item(containerEl)
+            } else if (isSettingField(item)) {
+                createFieldSetting(this.config, item).display(containerEl)
+            } else {
+                item.display(containerEl)
+            }
+        }
+    }
+}
+
+/**
+ * Create the tab pages for a schema, for `PluginSettingsTab.addTabs()`.
+ */
+export function buildSettingsPages<T extends Record<string, unknown>>(
+    config: PluginConfig<T>,
+    schema: SettingsSchema<T>
+): SettingsTabPage[] {
+    return schema.map(page =>
+        page instanceof SettingsTabPage ? page : new SchemaSettingsPage(config, page)
+    )
+}
+
+/**
+ * Create the setting control for a field. Changes are written to the config
+ * and saved.
+ */
+export function createFieldSetting<T extends Record<string, unknown>>(
+    config: PluginConfig<T>,
+    field: SettingField<T>
+): SettingDisplay {
+    const binding = bind(config, field.path)
+    const info = { name: field.name, description: field.description ?? "" }
+
+    switch (field.type) {
+        case "toggle":
+            return new BoundToggleSetting(info, binding).onChange(() => binding.save())
+        case "slider":
+            return new BoundSliderSetting(info, binding, field).onChange(() => binding.save())
+        case "text":
+            return new BoundTextInputSetting(info, binding, field.placeholder).onChange(() =>
+                binding.save()
+            )
+        case "textarea":
+            return new BoundTextAreaSetting(info, binding, field.placeholder).onChange(() =>
+                binding.save()
+            )
+        case "secret":
+            return new BoundSecretSetting(info, binding).onChange(() => binding.save())
+        case "dropdown":
+            return new BoundDropdownSetting(info, binding, field.options).onChange(() =>
+                binding.save()
+            )
+    }
+}
+
+/** Reads and writes one setting in a PluginConfig. */
+interface Binding {
+    get(): unknown
+    set(value: unknown): void
+    save(): Promise<void>
+    readonly default: unknown
+}
+
+type SliderLimits = Pick<SliderField<unknown>, "min" | "max" | "step">
+
+interface FieldInfo {
+    name: string
+    description: string
+}
+
+function bind<T extends Record<string, unknown>>(config: PluginConfig<T>, path: Path<T>): Binding {
+    return {
+        get: () => config.get(path),
+        set: value => setPath(config.store.value, path, value),
+        save: () => config.set(path, config.get(path)),
+        get default() {
+            return config.getDefault(path)
+        },
+    }
+}
+
+function isSettingField<T>(item: SettingField<T> | SettingDisplay): item is SettingField<T> {
+    return "type" in item && "path" in item
+}
+
+class BoundToggleSetting extends ToggleSetting {
+    constructor(
+        info: FieldInfo,
+        private binding: Binding
+    ) {
+        super(info)
+    }
+
+    get value(): boolean {
+        return this.binding.get() as boolean
+    }
+
+    set value(val: boolean) {
+        this.binding.set(val)
+    }
+
+    get default(): boolean {
+        return this.binding.default as boolean
+    }
+}
+
+class BoundSliderSetting extends SliderSetting {
+    constructor(
+        info: FieldInfo,
+        private binding: Binding,
+        private limits: SliderLimits
+    ) {
+        super(info)
+    }
+
+    get value(): number {
+        return this.binding.get() as number
+    }
+
+    set value(val: number) {
+        this.binding.set(val)
+    }
+
+    get default(): number {
+        return this.binding.default as number
+    }
+
+    get minimum(): number {
+        return this.limits.min
+    }
+
+    get maximum(): number {
+        return this.limits.max
+    }
+
+    get step(): number {
+        return this.limits.step ?? 1
+    }
+}
+
+class BoundTextInputSetting extends TextInputSetting {
+    constructor(
+        info: FieldInfo,
+        private binding: Binding,
+        private _placeholder: string | undefined
+    ) {
+        super(info)
+    }
+
+    get value(): string {
+        return this.binding.get() as string
+    }
+
+    set value(val: string) {
+        this.binding.set(val)
+    }
+
+    get default(): string {
+        return this.binding.default as string
+    }
+
+    get placeholder(): string | null {
+        return this._placeholder ?? this.default
+    }
+}
+
+class BoundTextAreaSetting extends TextAreaSetting {
+    constructor(
+        info: FieldInfo,
+        private binding: Binding,
+        private _placeholder: string | undefined
+    ) {
+        super(info)
+    }
+
+    get value(): string {
+        return this.binding.get() as string
+    }
+
+    set value(val: string) {
+        this.binding.set(val)
+    }
+
+    get default(): string {
+        return this.binding.default as string
+    }
+
+    get placeholder(): string | null {
+        return this._placeholder ?? this.default
+    }
+}
+
+class BoundSecretSetting extends SecretSetting {
+    constructor(
+        info: FieldInfo,
+        private binding: Binding
+    ) {
+        super(info)
+    }
+
+    get value(): string {
+        return this.binding.get() as string
+    }
+
+    set value(val: string) {
+        this.binding.set(val)
+    }
+}
+
+class BoundDropdownSetting extends DropdownSetting<unknown> {
+    constructor(
+        info: FieldInfo,
+        private binding: Binding,
+        private choices: { value: unknown; label: string }[]
+    ) {
+        super(info)
+    }
+
+    get value(): unknown {
+        return this.binding.get()
+    }
+
+    set value(val: unknown) {
+        this.binding.set(val)
+    }
+
+    get default(): unknown {
+        return this.binding.default
+    }
+
+    get options(): { key: string; label: string; value: unknown }[] {
+        return this.choices.map(({ value, label }) => ({
+            key: typeof value === "string" ? value : JSON.stringify(value),
+            label,
+            value,
+        }))
+    }
+}
@@ -1,4 +1,6 @@
-import { Plugin, Setting, PluginSettingTab, App } from "obsidian"
+import { Plugin, Setting, PluginSettingTab, App, Modal, Notice } from "obsidian"
+import { ImportResult, PluginConfig } from "./config"
+import { ErrorHandler } from "./errors"
 import { Logger } from "./logger"
 
 /** Configuration for a setting element. */
@@ -14,7 +16,7 @@ abstract class BaseSetting<T> {
     protected name: string | DocumentFragment
     protected description: string
 
-    protected _onChange?: (value: T) => void
+    protected _onChange?: (value: T) => unknown
 
     constructor(config: SettingConfig) {
         this.name = config.name
@@ -33,12 +35,29 @@ abstract class BaseSetting<T> {
     abstract display(containerEl: HTMLElement): Setting
 
     /**
-     * Set the callback when the setting value changes.
+     * Set the callback when the setting value changes. The callback may be
+     * async; it is awaited so its errors can be reported.
      */
-    onChange(callback: (value: T) => void): BaseSetting<T> {
+    onChange(callback: (value: T) => unknown): BaseSetting<T> {
         this._onChange = callback
         return this
     }
+
+    /**
+     * Store a new value from the UI and run the change callback.
+     *
+     * Errors from the value setter or the callback are reported through the
+     * installed ErrorHandler, rather than lost in the UI event.
+     */
+    protected async update(value: T): Promise<void> {
+        try {
+            this.value = value
+            await this._onChange?.(this.value)
+        } catch (err) {
+            const name = typeof this.name === "string" ? this.name : this.name.textContent
+            ErrorHandler.report(err, `Setting: ${name}`)
+        }
+    }
 }
 
 /**
@@ -51,10 +70,7 @@ export abstract class ToggleSetting extends BaseSetting<boolean> {
             .setDesc(this.description)
             .addToggle(toggle => {
                 toggle.setValue(this.value)
-                toggle.onChange(async value => {
-                    this.value = value
-                    this._onChange?.(this.value)
-                })
+                toggle.onChange(value => this.update(value))
             })
     }
 }
@@ -71,10 +87,7 @@ export abstract class SliderSetting extends BaseSetting<number> {
                 slider.setLimits(this.minimum, this.maximum, this.step)
                 slider.setDynamicTooltip()
                 slider.setValue(this.value)
-                slider.onChange(async value => {
-                    this.value = value
-                    this._onChange?.(this.value)
-                })
+                slider.onChange(value => this.update(value))
             })
     }
 
@@ -100,10 +113,7 @@ export abstract class TextInputSetting extends BaseSetting<string> {
                     text.setPlaceholder(this.placeholder)
                 }
 
-                text.onChange(async value => {
-                    this.value = value
-                    this._onChange?.(this.value)
-                })
+                text.onChange(value => this.update(value))
             })
     }
 
@@ -127,10 +137,7 @@ export abstract class TextAreaSetting extends BaseSetting<string> {
                     textArea.setPlaceholder(this.placeholder)
                 }
 
-                textArea.onChange(async value => {
-                    this.value = value
-                    this._onChange?.(this.value)
-                })
+                textArea.onChange(value => this.update(value))
             })
     }
 
@@ -139,6 +146,54 @@ export abstract class TextAreaSetting extends BaseSetting<string> {
     }
 }
 
+/**
+ * Masked text input for secrets such as API tokens, with a button to reveal
+ * the value.
+ */
+export abstract class SecretSetting extends BaseSetting<string> {
+    display(containerEl: HTMLElement): Setting {
+        let input: HTMLInputElement | null = null
+
+        return new Setting(containerEl)
+            .setName(this.name)
+            .setDesc(this.description)
+            .addText(text => {
+                input = text.inputEl
+                input.type = "password"
+                input.autocomplete = "off"
+                input.spellcheck = false
+
+                text.setValue(this.value)
+
+                if (this.placeholder) {
+                    text.setPlaceholder(this.placeholder)
+                }
+
+                text.onChange(value => this.update(value))
+            })
+            .addExtraButton(button => {
+                button.setIcon("eye")
+                button.setTooltip("Show")
+                button.onClick(() => {
+                    if (!input) return
+
+                    const hidden = input.type === "password"
+                    input.type = hidden ? "text" : "password"
+                    button.setIcon(hidden ? "eye-off" : "eye")
+                    button.setTooltip(hidden ? "Hide" : "Show")
+                })
+            })
+    }
+
+    get default(): string {
+        return ""
+    }
+
+    get placeholder(): string | null {
+        return null
+    }
+}
+
 /**
  * Dropdown setting for enumerated values.
  */
@@ -152,10 +207,7 @@ export abstract class DropdownSetting<T> extends BaseSetting<T> {
                     dropdown.addOption(key, label)
                 })
                 dropdown.setValue(this.getKeyForValue(this.value))
-                dropdown.onChange(async key => {
-                    this.value = this.getValueForKey(key)
-                    this._onChange?.(this.value)
-                })
+                dropdown.onChange(key => this.update(this.getValueForKey(key)))
             })
     }
 
@@ -181,6 +233,378 @@ export abstract class DropdownSetting<T> extends BaseSetting<T> {
     }
 }
 
+/** Options for a SettingsTransferSetting. */
+export interface SettingsTransferOptions<T extends Record<string, unknown>> {
+    plugin: Plugin
+    config: PluginConfig<T>
+    name?: string
+    description?: string
+    /** File name used when exporting to a file. */
+    filename?: string
+    /**
+     * Called after imported settings have been saved. The current settings
+     * object is updated in place, so existing references need no updating.
+     */
+    onImport?: (settings: T, result: ImportResult<T>) => void | Promise<void>
+}
+
+/**
+ * Buttons for exporting settings to the clipboard or a file, and importing
+ * them from a file.
+ */
+export class SettingsTransferSetting<T extends Record<string, unknown>> {
+    private options: SettingsTransferOptions<T>
+
+    private logger: Logger = Logger.getLogger("settings")
+
+    constructor(options: SettingsTransferOptions<T>) {
+        this.options = options
+    }
+
+    /**
+     * Creates the setting element in the provided container.
+     */
+    display(containerEl: HTMLElement): Setting {
+        const { name, description } = this.options
+
+        return new Setting(containerEl)
+            .setName(name ?? "Export & Import")
+            .setDesc(description ?? "Copy these settings to another vault.")
+            .addButton(button => {
+                button.setButtonText("Copy")
+                button.setTooltip("Copy settings to the clipboard")
+                button.onClick(() => this.exportToClipboard())
+            })
+            .addButton(button => {
+                button.setButtonText("Export")
+                button.setTooltip("Save settings to a file")
+                button.onClick(() => this.exportToFile())
+            })
+            .addButton(button => {
+                button.setButtonText("Import")
+                button.setTooltip("Load settings from a file")
+                button.onClick(() => this.chooseImportFile())
+            })
+    }
+
+    private async exportToClipboard(): Promise<void> {
+        try {
+            await navigator.clipboard.writeText(this.options.config.exportSettings())
+            new Notice("Settings copied to clipboard")
+        } catch (err) {
+            this.logger.error("Failed to copy settings", err)
+            new Notice(`Failed to copy settings: ${err instanceof Error ? err.message : err}`)
+        }
+    }
+
+    private exportToFile(): void {
+        const json = this.options.config.exportSettings()
+        const url = URL.createObjectURL(new Blob([json], { type: "application/json" }))
+
+        const link = document.createElement("a")
+        link.href = url
+        link.download = this.options.filename ?? `${this.options.plugin.manifest.id}-settings.json`
+        link.click()
+
+        URL.revokeObjectURL(url)
+    }
+
+    private chooseImportFile(): void {
+        const input = document.createElement("input")
+        input.type = "file"
+        input.accept = ".json,application/json"
+
+        input.addEventListener("change", async () => {
+            const file = input.files?.[0]
+            if (!file) return
+
+            let json: string
+            try {
+                json = await file.text()
+            } catch (err) {
+                this.logger.error("Failed to read settings file", err)
+                new Notice(
+                    `Failed to read settings file: ${err instanceof Error ? err.message : err}`
+                )
+                return
+            }
+
+            await this.importFrom(json)
+        })
+
+        input.click()
+    }
+
+    /**
+     * Import, save and report on settings from a JSON document.
+     */
+    private async importFrom(json: string): Promise<void> {
+        const { config, onImport } = this.options
+
+        try {
+            const result = await config.importSettings(json)
+            const settings = await config.applyImport(result)
+            await onImport?.(settings, result)
+
+            const ignored = result.unknownKeys.length + result.droppedKeys.length
+            new Notice(
+                ignored > 0
+                    ? `Settings imported; ${ignored} unrecognized setting(s) were ignored`
+                    : "Settings imported"
+            )
+        } catch (err) {
+            this.logger.error("Failed to import settings", err)
+            new Notice(`Failed to import settings: ${err instanceof Error ? err.message : err}`)
+        }
+    }
+}
+
+/** Options for a ProfileSetting. */
+export interface ProfileSettingOptions<T extends Record<string, unknown>> {
+    app: App
+    config: PluginConfig<T>
+    name?: string
+    description?: string
+    /** Called after profiles change, e.g. to refresh the settings tab. */
+    onChange?: () => void
+}
+
+/**
+ * Dropdown for switching settings profiles, with buttons to create,
+ * duplicate, rename and delete them.
+ */
+export class ProfileSetting<T extends Record<string, unknown>> {
+    private options: ProfileSettingOptions<T>
+
+    private logger: Logger = Logger.getLogger("settings")
+
+    constructor(options: ProfileSettingOptions<T>) {
+        this.options = options
+    }
+
+    /**
+     * Creates the setting element in the provided container.
+     */
+    display(containerEl: HTMLElement): Setting {
+        const { app, config, name, description } = this.options
+        const active = config.activeProfile
+
+        return new Setting(containerEl)
+            .setName(name ?? "Profile")
+            .setDesc(description ?? "Switch between named sets of settings.")
+            .addDropdown(dropdown => {
+                dropdown.addOption("", "Default")
+                config.profiles.forEach(profile => dropdown.addOption(profile, profile))
+                dropdown.setValue(active ?? "")
+                dropdown.onChange(value => this.run(() => config.switchProfile(value || null)))
+            })
+            .addExtraButton(button => {
+                button.setIcon("plus")
+                button.setTooltip("New profile")
+                button.onClick(() => {
+                    new ProfileNameModal(app, "New profile", "", name =>
+                        this.run(() => config.createProfile(name))
+                    ).open()
+                })
+            })
+            .addExtraButton(button => {
+                button.setIcon("copy")
+                button.setTooltip("Duplicate profile")
+                button.onClick(() => {
+                    new ProfileNameModal(
+                        app,
+                        "Duplicate profile",
+                        `${active ?? "Default"} copy`,
+                        name => this.run(() => config.duplicateProfile(active, name))
+                    ).open()
+                })
+            })
+            .addExtraButton(button => {
+                button.setIcon("pencil")
+                button.setTooltip("Rename profile")
+                button.setDisabled(active === null)
+                button.onClick(() => {
+                    if (active === null) return
+                    new ProfileNameModal(app, "Rename profile", active, name =>
+                        this.run(() => config.renameProfile(active, name))
+                    ).open()
+                })
+            })
+            .addExtraButton(button => {
+                button.setIcon("trash")
+                button.setTooltip("Delete profile")
+                button.setDisabled(active === null)
+                button.onClick(() => {
+                    if (active === null) return
+                    if (confirm(`Delete the profile "${active}"?`)) {
+                        this.run(() => config.deleteProfile(active))
+                    }
+                })
+            })
+    }
+
+    /**
+     * Run a profile operation, reporting failures and notifying on success.
+     */
+    private async run(action: () => Promise<void>): Promise<void> {
+        try {
+            await action()
+            this.options.onChange?.()
+        } catch (err) {
+            this.logger.error("Profile operation failed", err)
+            new Notice(err instanceof Error ? err.message : String(err))
+        }
+    }
+}
+
+/**
+ * Modal prompting for a profile name.
+ */
+class ProfileNameModal extends Modal {
+    private title: string
+    private value: string
+    private onSubmit: (name: string) => void
+
+    constructor(app: App, title: string, value: string, onSubmit: (name: string) => void) {
+        super(app)
+        this.title = title
+        this.value = value
+        this.onSubmit = onSubmit
+    }
+
+    onOpen(): void {
+        this.titleEl.setText(this.title)
+
+        new Setting(this.contentEl).setName("Name").addText(text => {
+            text.setValue(this.value)
+            text.onChange(value => {
+                this.value = value
+            })
+            text.inputEl.addEventListener("keydown", event => {
+                if (event.key === "Enter") this.submit()
+            })
+        })
+
+        new Setting(this.contentEl).addButton(button => {
+            button.setButtonText("Save")
+            button.setCta()
+            button.onClick(() => this.submit())
+        })
+    }
+
+    onClose(): void {
+        this.contentEl.empty()
+    }
+
+    private submit(): void {
+        this.close()
+        this.onSubmit(this.value.trim())
+    }
+}
+
+/** Options for a SettingsHistoryView. */
+export interface SettingsHistoryOptions<T extends Record<string, unknown>> {
+    config: PluginConfig<T>
+    name?: string
+    description?: string
+    /** Maximum number of entries to list (default: 10). */
+    limit?: number
+    /** Called after undo or redo, e.g. to refresh the settings tab. */
+    onChange?: () => void
+}
+
+/**
+ * Undo and redo buttons with a list of recent settings changes.
+ */
+export class SettingsHistoryView<T extends Record<string, unknown>> {
+    private options: SettingsHistoryOptions<T>
+
+    private logger: Logger = Logger.getLogger("settings")
+
+    constructor(options: SettingsHistoryOptions<T>) {
+        this.options = options
+    }
+
+    /**
+     * Creates the history element in the provided container.
+     *
+     * The element updates itself as the history changes, until it is removed
+     * from the document.
+     */
+    display(containerEl: HTMLElement): HTMLElement {
+        const historyEl = containerEl.createDiv({ cls: "obskit-history" })
+        this.render(historyEl)
+
+        const unsubscribe = this.options.config.history.onChange(() => {
+            if (historyEl.isConnected) {
+                this.render(historyEl)
+            } else {
+                unsubscribe()
+            }
+        })
+
+        return historyEl
+    }
+
+    private render(historyEl: HTMLElement): void {
+        const { config, name, description } = this.options
+        const history = config.history
+
+        historyEl.empty()
+
+        new Setting(historyEl)
+            .setName(name ?? "History")
+            .setDesc(description ?? "Undo or redo recent changes to these settings.")
+            .addExtraButton(button => {
+                button.setIcon("undo")
+                button.setTooltip("Undo")
+                button.setDisabled(!history.canUndo)
+                button.onClick(() => this.run(() => config.undo()))
+            })
+            .addExtraButton(button => {
+                button.setIcon("redo")
+                button.setTooltip("Redo")
+                button.setDisabled(!history.canRedo)
+                button.onClick(() => this.run(() => config.redo()))
+            })
+
+        const listEl = historyEl.createEl("ul", { cls: "obskit-history-entries" })
+
+        for (const entry of history.entries.slice(0, this.options.limit ?? 10)) {
+            const time = new Date(entry.timestamp).toLocaleTimeString()
+
+            for (const change of entry.changes) {
+                const oldValue = this.describe(change.path, change.oldValue)
+                const newValue = this.describe(change.path, change.newValue)
+
+                listEl.createEl("li", {
+                    text: `${time} ${change.path}: ${oldValue} → ${newValue}`,
+                })
+            }
+        }
+    }
+
+    /**
+     * Describe a value for display, hiding secrets.
+     */
+    private describe(path: string, value: unknown): string {
+        if (value === undefined) return "(unset)"
+        if (this.options.config.isSecret(path)) return "••••••••"
+        return JSON.stringify(Logger.redact(value))
+    }
+
+    private async run(action: () => Promise<boolean>): Promise<void> {
+        try {
+            if (await action()) {
+                this.options.onChange?.()
+            }
+        } catch (err) {
+            this.logger.error("Failed to restore settings", err)
+            new Notice(err instanceof Error ? err.message : String(err))
+        }
+    }
+}
+
 /**
  * Base class for settings tab pages.
  */
@@ -384,6 +808,13 @@ export abstract class PluginSettingsTab extends PluginSettingTab {
         this.activeTab.display(this.contentContainer)
     }
 
+    /**
+     * Re-render the active tab, e.g. after settings changed externally.
+     */
+    refresh(): void {
+        this.displayActiveTabContent()
+    }
+
     /**
      * Hide the settings tab UI.
      */
@@ -0,0 +1,196 @@
+import { Component } from "obsidian"
+
+import { Logger } from "./logger"
+import { deepEqual, isPlainObject } from "./objects"
+import { getPath, Path, pathsOverlap, PathValue, setPath } from "./paths"
+
+/** A single changed value in the settings tree. */
+export interface SettingsChange {
+    /** Dotted path of the changed value. */
+    path: string
+    oldValue: unknown
+    newValue: unknown
+}
+
+/** Callback for changes to a specific settings path. */
+export type PathListener<V> = (newValue: V, oldValue: V) => void
+
+/** Callback for any change to the settings. */
+export type ChangeListener = (changes: SettingsChange[]) => void
+
+interface PathSubscription {
+    path: string
+    callback: PathListener<unknown>
+}
+
+/**
+ * Observable wrapper around a settings object.
+ *
+ * Changes are detected by comparing the live object with a snapshot taken at
+ * the last update, so callers may mutate `value` directly and call `update()`
+ * afterwards.
+ */
+export class SettingsStore<T extends Record<string, unknown>> {
+    private current: T
+    private snapshot: T
+
+    private subscriptions: Set<PathSubscription> = new Set()
+    private anyListeners: Set<ChangeListener> = new Set()
+
+    private logger: Logger = Logger.getLogger("store")
+
+    constructor(initial: T) {
+        this.current = initial
+        this.snapshot = structuredClone(initial)
+    }
+
+    /**
+     * The live settings object.
+     */
+    get value(): T {
+        return this.current
+    }
+
+    /**
+     * Read the value at a dotted path.
+     */
+    get<P extends Path<T>>(path: P): PathValue<T, P> {
+        return getPath(this.current, path) as PathValue<T, P>
+    }
+
+    /**
+     * Write the value at a dotted path and notify listeners.
+     */
+    set<P extends Path<T>>(path: P, value: PathValue<T, P>): SettingsChange[] {
+        setPath(this.current, path, value)
+        return this.update()
+    }
+
+    /**
+     * Notify listeners of any changes since the last update.
+     *
+     * If `next` is provided it replaces the live settings object.
+     */
+    update(next?: T): SettingsChange[] {
+        if (next !== undefined) {
+            this.current = next
+        }
+
+        const previous = this.snapshot
+        const changes = diffValues(previous, this.current, "")
+
+        this.snapshot = structuredClone(this.current)
+
+        if (changes.length > 0) {
+            this.notify(previous, changes)
+        }
+
+        return changes
+    }
+
+    /**
+     * Subscribe to changes at (or below) a dotted path.
+     *
+     * If a component is given, the subscription is removed when it unloads.
+     * Returns a function that removes the subscription.
+     */
+    subscribe<P extends Path<T>>(
+        path: P,
+        callback: PathListener<PathValue<T, P>>,
+        component?: Component
+    ): () => void {
+        const subscription: PathSubscription = {
+            path,
+            callback: callback as PathListener<unknown>,
+        }
+
+        this.subscriptions.add(subscription)
+
+        const unsubscribe = () => {
+            this.subscriptions.delete(subscription)
+        }
+
+        component?.register(unsubscribe)
+
+        return unsubscribe
+    }
+
+    /**
+     * Subscribe to every change in the settings.
+     *
+     * If a component is given, the listener is removed when it unloads.
+     * Returns a function that removes the listener.
+     */
+    onAnyChange(callback: ChangeListener, component?: Component): () => void {
+        this.anyListeners.add(callback)
+
+        const unsubscribe = () => {
+            this.anyListeners.delete(callback)
+        }
+
+        component?.register(unsubscribe)
+
+        return unsubscribe
+    }
+
+    /**
+     * Dispatch changes to interested listeners.
+     */
+    private notify(previous: T, changes: SettingsChange[]): void {
+        this.logger.debug(`Settings changed: ${changes.map(c => c.path).join(", ")}`)
+
+        for (const subscription of [...this.subscriptions]) {
+            const { path, callback } = subscription
+
+            if (!changes.some(change => pathsOverlap(change.path, path))) continue
+
+            const oldValue = getPath(previous, path)
+            const newValue = getPath(this.current, path)
+
+            if (deepEqual(oldValue, newValue)) continue
+
+            this.dispatch(() => callback(newValue, oldValue))
+        }
+
+        for (const listener of [...this.anyListeners]) {
+            this.dispatch(() => listener(changes))
+        }
+    }
+
+    /**
+     * Invoke a listener, logging failures so one bad listener can't block the rest.
+     */
+    private dispatch(fn: () => void): void {
+        try {
+            fn()
+        } catch (err) {
+            this.logger.error("Settings listener failed", err)
+        }
+    }
+}
+
+/**
+ * Compute the changed paths between two values.
+ *
+ * Plain objects are compared key by key; any other value (including arrays)
+ * is reported as a single change when not deeply equal.
+ */
+export function diffValues(oldValue: unknown, newValue: unknown, path: string): SettingsChange[] {
+    if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+        const keys = new Set([...Object.keys(oldValue), ...Object.keys(newValue)])
+        const changes: SettingsChange[] = []
+
+        for (const key of keys) {
+            const childPath = path ? `${path}.${key}` : key
+            changes.push(...diffValues(oldValue[key], newValue[key], childPath))
+        }
+
+        return changes
+    }
+
+    if (deepEqual(oldValue, newValue)) {
+        return []
+    }
+
+    return [{ path, oldValue, newValue }]
+}
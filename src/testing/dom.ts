@@ -0,0 +1,215 @@
+// stand-ins for the globals and DOM helpers Obsidian provides
+
+/** Element options accepted by `createEl()` and friends. */
+export interface DomElementInfo {
+    cls?: string | string[]
+    text?: string | DocumentFragment
+    attr?: Record<string, string | number | boolean | null>
+    title?: string
+    parent?: Node
+    value?: string
+    type?: string
+    prepend?: boolean
+    placeholder?: string
+    href?: string
+}
+
+type ElementCallback = (el: HTMLElement) => void
+
+/**
+ * Install Obsidian's DOM helpers (`createEl`, `empty`, `addClass`, ...) on
+ * the global prototypes of a jsdom environment, along with `structuredClone`,
+ * which Obsidian has but jsdom lacks.
+ *
+ * Existing globals are left alone, so this is safe to call more than once.
+ */
+export function installGlobals(): void {
+    const global = globalThis as unknown as Record<string, unknown>
+
+    define(global, "structuredClone", (value: unknown) => cloneValue(value))
+
+    if (typeof document === "undefined") return
+
+    const node = Node.prototype as unknown as Record<string, unknown>
+    const element = Element.prototype as unknown as Record<string, unknown>
+
+    define(node, "empty", function (this: Node) {
+        while (this.firstChild) {
+            this.removeChild(this.firstChild)
+        }
+    })
+
+    define(node, "detach", function (this: Node) {
+        this.parentNode?.removeChild(this)
+    })
+
+    define(
+        node,
+        "createEl",
+        function (this: Node, tag: string, o?: DomElementInfo | string, cb?: ElementCallback) {
+            return createEl(tag, withParent(o, this), cb)
+        }
+    )
+
+    define(
+        node,
+        "createDiv",
+        function (this: Node, o?: DomElementInfo | string, cb?: ElementCallback) {
+            return createEl("div", withParent(o, this), cb)
+        }
+    )
+
+    define(
+        node,
+        "createSpan",
+        function (this: Node, o?: DomElementInfo | string, cb?: ElementCallback) {
+            return createEl("span", withParent(o, this), cb)
+        }
+    )
+
+    define(node, "appendText", function (this: Node, text: string) {
+        this.appendChild(document.createTextNode(text))
+    })
+
+    define(element, "setText", function (this: Element, text: string | DocumentFragment) {
+        setText(this, text)
+    })
+
+    define(element, "getText", function (this: Element) {
+        return this.textContent ?? ""
+    })
+
+    define(element, "addClass", function (this: Element, ...classes: string[]) {
+        this.classList.add(...classes)
+    })
+
+    define(element, "addClasses", function (this: Element, classes: string[]) {
+        this.classList.add(...classes)
+    })
+
+    define(element, "removeClass", function (this: Element, ...classes: string[]) {
+        this.classList.remove(...classes)
+    })
+
+    define(element, "toggleClass", function (this: Element, cls: string, value: boolean) {
+        this.classList.toggle(cls, value)
+    })
+
+    define(element, "hasClass", function (this: Element, cls: string) {
+        return this.classList.contains(cls)
+    })
+
+    define(element, "setAttr", function (this: Element, name: string, value: unknown) {
+        setAttr(this, name, value)
+    })
+
+    define(element, "getAttr", function (this: Element, name: string) {
+        return this.getAttribute(name)
+    })
+
+    define(global, "createEl", createEl)
+    define(global, "createDiv", (o?: DomElementInfo | string, cb?: ElementCallback) =>
+        createEl("div", o, cb)
+    )
+    define(global, "createSpan", (o?: DomElementInfo | string, cb?: ElementCallback) =>
+        createEl("span", o, cb)
+    )
+    define(global, "createFragment", (cb?: (el: DocumentFragment) => void) => {
+        const fragment = document.createDocumentFragment()
+        cb?.(fragment)
+        return fragment
+    })
+}
+
+/**
+ * Create an element from Obsidian-style element options.
+ */
+export function createEl(
+    tag: string,
+    o?: DomElementInfo | string,
+    callback?: ElementCallback
+): HTMLElement {
+    const info: DomElementInfo = typeof o === "string" ? { cls: o } : (o ?? {})
+    const el = document.createElement(tag)
+
+    if (info.cls) {
+        el.classList.add(...(Array.isArray(info.cls) ? info.cls : info.cls.split(" ")))
+    }
+    if (info.text !== undefined) setText(el, info.text)
+    if (info.title !== undefined) el.title = info.title
+    if (info.value !== undefined) el.setAttribute("value", info.value)
+    if (info.type !== undefined) el.setAttribute("type", info.type)
+    if (info.placeholder !== undefined) el.setAttribute("placeholder", info.placeholder)
+    if (info.href !== undefined) el.setAttribute("href", info.href)
+
+    for (const name of Object.keys(info.attr ?? {})) {
+        setAttr(el, name, info.attr?.[name])
+    }
+
+    if (info.parent) {
+        if (info.prepend) {
+            info.parent.insertBefore(el, info.parent.firstChild)
+        } else {
+            info.parent.appendChild(el)
+        }
+    }
+
+    callback?.(el)
+
+    return el
+}
+
+/**
+ * Deep copy the structured-cloneable values used in settings.
+ */
+function cloneValue(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(cloneValue)
+    }
+    if (value instanceof Date) {
+        return new Date(value.getTime())
+    }
+    if (value instanceof Map) {
+        return new Map(Array.from(value, ([k, v]) => [cloneValue(k), cloneValue(v)]))
+    }
+    if (value instanceof Set) {
+        return new Set(Array.from(value, cloneValue))
+    }
+    if (typeof value === "object" && value !== null) {
+        const copy: Record<string, unknown> = {}
+        for (const key of Object.keys(value)) {
+            copy[key] = cloneValue((value as Record<string, unknown>)[key])
+        }
+        return copy
+    }
+    return value
+}
+
+function define(target: Record<string, unknown>, name: string, value: unknown): void {
+    if (!(name in target)) {
+        Object.defineProperty(target, name, { value, configurable: true, writable: true })
+    }
+}
+
+function withParent(o: DomElementInfo | string | undefined, parent: Node): DomElementInfo {
+    const info: DomElementInfo = typeof o === "string" ? { cls: o } : { ...o }
+    info.parent = parent
+    return info
+}
+
+function setText(el: Element, text: string | DocumentFragment): void {
+    if (typeof text === "string") {
+        el.textContent = text
+    } else {
+        el.textContent = ""
+        el.appendChild(text)
+    }
+}
+
+function setAttr(el: Element, name: string, value: unknown): void {
+    if (value === null || value === undefined || value === false) {
+        el.removeAttribute(name)
+    } else {
+        el.setAttribute(name, value === true ? "" : String(value))
+    }
+}
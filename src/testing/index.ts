@@ -0,0 +1,8 @@
+// obskit/testing - fakes and helpers for testing plugins in Jest
+
+export * from "./dom"
+export * from "./logging"
+export * from "./plugin"
+export * from "./simulate"
+export { App, clearNotices, notices, openModals } from "./obsidian"
+export type { SettingControl } from "./obsidian"
@@ -0,0 +1,59 @@
+import { Logger, LogLevel, LogRecord, LogSink } from "../logger"
+
+/**
+ * Collects log records so tests can make assertions about them.
+ *
+ *   const logs = new CaptureSink().attach()
+ *   ...
+ *   expect(logs.messages(LogLevel.WARN)).toContain("Something went wrong")
+ *   logs.detach()
+ */
+export class CaptureSink implements LogSink {
+    /** Captured records, oldest first. */
+    readonly records: LogRecord[] = []
+
+    private cleanup: (() => void) | null = null
+
+    write(record: LogRecord): void {
+        this.records.push(record)
+    }
+
+    /**
+     * Messages of the captured records at the given level (or all levels).
+     */
+    messages(level?: LogLevel): string[] {
+        return this.records
+            .filter(record => level === undefined || record.level === level)
+            .map(record => record.message)
+    }
+
+    clear(): void {
+        this.records.splice(0)
+    }
+
+    /**
+     * Register this sink and raise every logger to `level` until detached.
+     */
+    attach(level: LogLevel = LogLevel.DEBUG): this {
+        this.detach()
+
+        const previous = Logger.getGlobalLogLevel()
+        Logger.setGlobalLogLevel(level)
+        const remove = Logger.addSink(this)
+
+        this.cleanup = () => {
+            remove()
+            Logger.setGlobalLogLevel(previous)
+        }
+
+        return this
+    }
+
+    /**
+     * Unregister this sink and restore the previous log level.
+     */
+    detach(): void {
+        this.cleanup?.()
+        this.cleanup = null
+    }
+}
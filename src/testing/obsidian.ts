@@ -0,0 +1,907 @@
+// lightweight runtime stand-in for the "obsidian" module, for use in Jest
+//
+// Map the module in the Jest config and use a jsdom test environment:
+//
+//   moduleNameMapper: { "^obsidian$": "obskit/testing/obsidian" }
+
+import { createEl, installGlobals } from "./dom"
+
+installGlobals()
+
+/** Plugin manifest fields used by the fakes. */
+export interface PluginManifest {
+    id: string
+    name: string
+    version: string
+    minAppVersion: string
+    author: string
+    description: string
+    dir?: string
+}
+
+/** Command definition passed to `Plugin.addCommand()`. */
+export interface Command {
+    id: string
+    name: string
+    callback?: () => unknown
+    checkCallback?: (checking: boolean) => boolean | void
+}
+
+/** Fuzzy search result wrapping a suggested item. */
+export interface FuzzyMatch<T> {
+    item: T
+    match: { score: number; matches: [number, number][] }
+}
+
+/** Version of the Obsidian API reported by the fakes. */
+export const apiVersion: string = "1.0.0"
+
+/** Platform flags, describing a Linux desktop app. */
+export const Platform = {
+    isDesktop: true,
+    isMobile: false,
+    isDesktopApp: true,
+    isMobileApp: false,
+    isIosApp: false,
+    isAndroidApp: false,
+    isPhone: false,
+    isTablet: false,
+    isMacOS: false,
+    isWin: false,
+    isLinux: true,
+    isSafari: false,
+}
+
+/** Notices shown since the last call to `clearNotices()`, oldest first. */
+export const notices: Notice[] = []
+
+/** Modals that are currently open, oldest first. */
+export const openModals: Modal[] = []
+
+/**
+ * Forget all recorded notices.
+ */
+export function clearNotices(): void {
+    notices.splice(0)
+}
+
+/**
+ * Normalize a vault path the way Obsidian does.
+ */
+export function normalizePath(path: string): string {
+    return path.replace(/[\\/]+/g, "/").replace(/^\/|\/$/g, "")
+}
+
+/**
+ * Record the icon on the element instead of rendering it.
+ */
+export function setIcon(el: HTMLElement, icon: string): void {
+    el.setAttribute("data-icon", icon)
+}
+
+export class Events {
+    private handlers: Map<string, Set<(...data: unknown[]) => unknown>> = new Map()
+
+    on(name: string, callback: (...data: unknown[]) => unknown): { name: string } {
+        const handlers = this.handlers.get(name) ?? new Set()
+        handlers.add(callback)
+        this.handlers.set(name, handlers)
+        return { name }
+    }
+
+    off(name: string, callback: (...data: unknown[]) => unknown): void {
+        this.handlers.get(name)?.delete(callback)
+    }
+
+    trigger(name: string, ...data: unknown[]): void {
+        for (const handler of [...(this.handlers.get(name) ?? [])]) {
+            handler(...data)
+        }
+    }
+}
+
+export class Component {
+    private _loaded: boolean = false
+    private children: Component[] = []
+    private cleanups: (() => unknown)[] = []
+
+    load(): void {
+        if (this._loaded) return
+        this._loaded = true
+        this.onload()
+        this.children.forEach(child => child.load())
+    }
+
+    onload(): void {}
+
+    unload(): void {
+        if (!this._loaded) return
+        this._loaded = false
+
+        this.children.splice(0).forEach(child => child.unload())
+        this.cleanups.splice(0).forEach(cleanup => cleanup())
+
+        this.onunload()
+    }
+
+    onunload(): void {}
+
+    addChild<T extends Component>(component: T): T {
+        this.children.push(component)
+        if (this._loaded) component.load()
+        return component
+    }
+
+    removeChild<T extends Component>(component: T): T {
+        this.children = this.children.filter(child => child !== component)
+        component.unload()
+        return component
+    }
+
+    register(cb: () => unknown): void {
+        this.cleanups.push(cb)
+    }
+
+    registerEvent(_ref: unknown): void {}
+
+    registerDomEvent(el: EventTarget, type: string, callback: (event: Event) => unknown): void {
+        el.addEventListener(type, callback)
+        this.register(() => el.removeEventListener(type, callback))
+    }
+
+    registerInterval(id: number): number {
+        this.register(() => clearInterval(id))
+        return id
+    }
+}
+
+/**
+ * In-memory stand-in for the vault's data adapter.
+ */
+export class DataAdapter {
+    readonly files: Map<string, string> = new Map()
+
+    async exists(path: string): Promise<boolean> {
+        path = normalizePath(path)
+        return this.files.has(path) || this.list_(path).length > 0
+    }
+
+    async read(path: string): Promise<string> {
+        const content = this.files.get(normalizePath(path))
+        if (content === undefined) {
+            throw new Error(`ENOENT: no such file: ${path}`)
+        }
+        return content
+    }
+
+    async write(path: string, data: string): Promise<void> {
+        this.files.set(normalizePath(path), data)
+    }
+
+    async append(path: string, data: string): Promise<void> {
+        path = normalizePath(path)
+        this.files.set(path, (this.files.get(path) ?? "") + data)
+    }
+
+    async remove(path: string): Promise<void> {
+        if (!this.files.delete(normalizePath(path))) {
+            throw new Error(`ENOENT: no such file: ${path}`)
+        }
+    }
+
+    async rename(from: string, to: string): Promise<void> {
+        const content = await this.read(from)
+        this.files.delete(normalizePath(from))
+        this.files.set(normalizePath(to), content)
+    }
+
+    async stat(path: string): Promise<{ type: "file"; size: number } | null> {
+        const content = this.files.get(normalizePath(path))
+        // sizes are in bytes, as in Obsidian
+        return content === undefined ? null : { type: "file", size: utf8Length(content) }
+    }
+
+    async list(path: string): Promise<{ files: string[]; folders: string[] }> {
+        return { files: this.list_(normalizePath(path)), folders: [] }
+    }
+
+    async mkdir(_path: string): Promise<void> {}
+
+    private list_(dir: string): string[] {
+        return [...this.files.keys()].filter(file => file.startsWith(`${dir}/`))
+    }
+}
+
+export class TAbstractFile {
+    path: string
+    name: string
+
+    constructor(path: string) {
+        this.path = normalizePath(path)
+        this.name = this.path.slice(this.path.lastIndexOf("/") + 1)
+    }
+}
+
+export class TFile extends TAbstractFile {
+    get basename(): string {
+        const dot = this.name.lastIndexOf(".")
+        return dot > 0 ? this.name.slice(0, dot) : this.name
+    }
+
+    get extension(): string {
+        const dot = this.name.lastIndexOf(".")
+        return dot > 0 ? this.name.slice(dot + 1) : ""
+    }
+}
+
+export class Vault extends Events {
+    readonly adapter: DataAdapter = new DataAdapter()
+    configDir: string = ".obsidian"
+
+    async create(path: string, data: string): Promise<TFile> {
+        if (await this.adapter.exists(path)) {
+            throw new Error("File already exists.")
+        }
+        await this.adapter.write(path, data)
+        return new TFile(path)
+    }
+
+    getAbstractFileByPath(path: string): TAbstractFile | null {
+        return this.adapter.files.has(normalizePath(path)) ? new TFile(path) : null
+    }
+}
+
+export class SecretStorage extends Events {
+    readonly secrets: Map<string, string> = new Map()
+
+    setSecret(id: string, secret: string): void {
+        if (!/^[a-z0-9-]+$/.test(id)) {
+            throw new Error(`Invalid secret id: ${id}`)
+        }
+        this.secrets.set(id, secret)
+    }
+
+    getSecret(id: string): string | null {
+        return this.secrets.get(id) ?? null
+    }
+
+    listSecrets(): string[] {
+        return [...this.secrets.keys()]
+    }
+}
+
+export class App {
+    vault: Vault = new Vault()
+    workspace: Events = new Events()
+    secretStorage: SecretStorage = new SecretStorage()
+
+    /** Values saved with `saveLocalStorage()`, by key. */
+    readonly localStorage: Map<string, unknown> = new Map()
+
+    loadLocalStorage(key: string): unknown {
+        return structuredClone(this.localStorage.get(key) ?? null)
+    }
+
+    saveLocalStorage(key: string, data: unknown): void {
+        if (data === null) {
+            this.localStorage.delete(key)
+        } else {
+            this.localStorage.set(key, structuredClone(data))
+        }
+    }
+}
+
+export class Plugin extends Component {
+    app: App
+    manifest: PluginManifest
+
+    /** Commands added with `addCommand()`, by id. */
+    readonly commands: Map<string, Command> = new Map()
+
+    /** Settings tabs added with `addSettingTab()`. */
+    readonly settingTabs: PluginSettingTab[] = []
+
+    protected data: unknown = null
+
+    constructor(app: App, manifest: PluginManifest) {
+        super()
+        this.app = app
+        this.manifest = manifest
+    }
+
+    async loadData(): Promise<unknown> {
+        return structuredClone(this.data)
+    }
+
+    async saveData(data: unknown): Promise<void> {
+        this.data = structuredClone(data)
+    }
+
+    addCommand(command: Command): Command {
+        this.commands.set(command.id, command)
+        return command
+    }
+
+    removeCommand(id: string): void {
+        this.commands.delete(id)
+    }
+
+    addSettingTab(tab: PluginSettingTab): void {
+        this.settingTabs.push(tab)
+    }
+
+    addRibbonIcon(icon: string, title: string, callback: (evt: MouseEvent) => unknown) {
+        const el = createEl("div", { cls: "side-dock-ribbon-action", title })
+        setIcon(el, icon)
+        el.addEventListener("click", callback)
+        return el
+    }
+
+    addStatusBarItem(): HTMLElement {
+        return createEl("div", { cls: "status-bar-item" })
+    }
+}
+
+export class Notice {
+    noticeEl: HTMLElement = createEl("div", { cls: "notice" })
+    message: string = ""
+    duration: number | undefined
+
+    constructor(message: string | DocumentFragment, duration?: number) {
+        this.duration = duration
+        this.setMessage(message)
+        notices.push(this)
+    }
+
+    setMessage(message: string | DocumentFragment): this {
+        this.message = typeof message === "string" ? message : (message.textContent ?? "")
+        this.noticeEl.setText(message)
+        return this
+    }
+
+    hide(): void {
+        const index = notices.indexOf(this)
+        if (index >= 0) notices.splice(index, 1)
+    }
+}
+
+export class Modal {
+    app: App
+    containerEl: HTMLElement = createEl("div", { cls: "modal-container" })
+    modalEl: HTMLElement
+    titleEl: HTMLElement
+    contentEl: HTMLElement
+
+    constructor(app: App) {
+        this.app = app
+        this.modalEl = this.containerEl.createDiv({ cls: "modal" })
+        this.titleEl = this.modalEl.createDiv({ cls: "modal-title" })
+        this.contentEl = this.modalEl.createDiv({ cls: "modal-content" })
+    }
+
+    /**
+     * True while the modal is open.
+     */
+    get isOpen(): boolean {
+        return openModals.indexOf(this) >= 0
+    }
+
+    open(): void {
+        if (this.isOpen) return
+        openModals.push(this)
+        document.body.appendChild(this.containerEl)
+        this.onOpen()
+    }
+
+    close(): void {
+        if (!this.isOpen) return
+        openModals.splice(openModals.indexOf(this), 1)
+        this.containerEl.detach()
+        this.onClose()
+    }
+
+    setTitle(title: string): this {
+        this.titleEl.setText(title)
+        return this
+    }
+
+    setContent(content: string | DocumentFragment): this {
+        this.contentEl.setText(content)
+        return this
+    }
+
+    onOpen(): void {}
+
+    onClose(): void {}
+}
+
+export abstract class SuggestModal<T> extends Modal {
+    emptyStateText: string = "No results found."
+    limit: number = 100
+    inputEl: HTMLInputElement
+
+    constructor(app: App) {
+        super(app)
+        this.inputEl = this.modalEl.createEl("input", { cls: "prompt-input" }) as HTMLInputElement
+    }
+
+    setPlaceholder(placeholder: string): void {
+        this.inputEl.placeholder = placeholder
+    }
+
+    setInstructions(_instructions: { command: string; purpose: string }[]): void {}
+
+    abstract getSuggestions(query: string): T[] | Promise<T[]>
+
+    abstract renderSuggestion(value: T, el: HTMLElement): void
+
+    abstract onChooseSuggestion(item: T, evt: MouseEvent | KeyboardEvent): void
+}
+
+export abstract class FuzzySuggestModal<T> extends SuggestModal<FuzzyMatch<T>> {
+    abstract getItems(): T[]
+
+    abstract getItemText(item: T): string
+
+    abstract onChooseItem(item: T, evt: MouseEvent | KeyboardEvent): void
+
+    getSuggestions(query: string): FuzzyMatch<T>[] {
+        const needle = query.toLowerCase()
+
+        return this.getItems()
+            .filter(item => this.getItemText(item).toLowerCase().includes(needle))
+            .map(item => ({ item, match: { score: 0, matches: [] } }))
+    }
+
+    renderSuggestion(value: FuzzyMatch<T>, el: HTMLElement): void {
+        el.setText(this.getItemText(value.item))
+    }
+
+    onChooseSuggestion(item: FuzzyMatch<T>, evt: MouseEvent | KeyboardEvent): void {
+        this.onChooseItem(item.item, evt)
+    }
+}
+
+export abstract class PluginSettingTab {
+    app: App
+    plugin: Plugin
+    containerEl: HTMLElement = createEl("div", { cls: "vertical-tab-content" })
+
+    constructor(app: App, plugin: Plugin) {
+        this.app = app
+        this.plugin = plugin
+    }
+
+    abstract display(): void
+
+    hide(): void {}
+}
+
+// ============================================================================
+// SETTING CONTROLS
+// ============================================================================
+
+export class BaseComponent {
+    disabled: boolean = false
+
+    then(cb: (component: this) => unknown): this {
+        cb(this)
+        return this
+    }
+
+    setDisabled(disabled: boolean): this {
+        this.disabled = disabled
+        return this
+    }
+}
+
+/**
+ * Base class for controls with a value, recording the change callback so
+ * tests can simulate user input.
+ */
+export abstract class ValueComponent<T> extends BaseComponent {
+    protected changeCallback: ((value: T) => unknown) | null = null
+
+    abstract getValue(): T
+
+    abstract setValue(value: T): this
+
+    onChange(callback: (value: T) => unknown): this {
+        this.changeCallback = callback
+        return this
+    }
+
+    /**
+     * Set the value as if the user changed it, and wait for the change
+     * callback to finish.
+     */
+    async simulateChange(value: T): Promise<void> {
+        if (this.disabled) {
+            throw new Error("Cannot change a disabled control")
+        }
+
+        this.setValue(value)
+        await this.changeCallback?.(this.getValue())
+    }
+}
+
+export class ToggleComponent extends ValueComponent<boolean> {
+    toggleEl: HTMLElement
+    private value: boolean = false
+
+    constructor(containerEl: HTMLElement) {
+        super()
+        this.toggleEl = containerEl.createDiv({ cls: "checkbox-container" })
+        this.toggleEl.addEventListener("click", () => {
+            if (!this.disabled) this.simulateChange(!this.value)
+        })
+    }
+
+    getValue(): boolean {
+        return this.value
+    }
+
+    setValue(on: boolean): this {
+        this.value = on
+        this.toggleEl.toggleClass("is-enabled", on)
+        return this
+    }
+
+    setTooltip(tooltip: string): this {
+        this.toggleEl.setAttr("aria-label", tooltip)
+        return this
+    }
+}
+
+export class SliderComponent extends ValueComponent<number> {
+    sliderEl: HTMLInputElement
+    min: number = 0
+    max: number = 100
+    step: number | "any" = 1
+
+    constructor(containerEl: HTMLElement) {
+        super()
+        this.sliderEl = containerEl.createEl("input", {
+            cls: "slider",
+            type: "range",
+        }) as HTMLInputElement
+        this.sliderEl.addEventListener("input", () => this.changeCallback?.(this.getValue()))
+    }
+
+    getValue(): number {
+        return Number(this.sliderEl.value)
+    }
+
+    setValue(value: number): this {
+        this.sliderEl.value = String(value)
+        return this
+    }
+
+    setLimits(min: number | null, max: number | null, step: number | "any"): this {
+        this.min = min ?? 0
+        this.max = max ?? 100
+        this.step = step
+        this.sliderEl.min = String(this.min)
+        this.sliderEl.max = String(this.max)
+        this.sliderEl.step = String(step)
+        return this
+    }
+
+    setDynamicTooltip(): this {
+        return this
+    }
+
+    setInstant(_instant: boolean): this {
+        return this
+    }
+}
+
+abstract class AbstractTextComponent<
+    E extends HTMLInputElement | HTMLTextAreaElement,
+> extends ValueComponent<string> {
+    inputEl: E
+
+    constructor(inputEl: E) {
+        super()
+        this.inputEl = inputEl
+        this.inputEl.addEventListener("input", () => this.changeCallback?.(this.getValue()))
+    }
+
+    getValue(): string {
+        return this.inputEl.value
+    }
+
+    setValue(value: string): this {
+        this.inputEl.value = value
+        return this
+    }
+
+    setPlaceholder(placeholder: string): this {
+        this.inputEl.placeholder = placeholder
+        return this
+    }
+}
+
+export class TextComponent extends AbstractTextComponent<HTMLInputElement> {
+    constructor(containerEl: HTMLElement) {
+        super(containerEl.createEl("input", { type: "text" }) as HTMLInputElement)
+    }
+}
+
+export class TextAreaComponent extends AbstractTextComponent<HTMLTextAreaElement> {
+    constructor(containerEl: HTMLElement) {
+        super(containerEl.createEl("textarea") as HTMLTextAreaElement)
+    }
+}
+
+export class DropdownComponent extends ValueComponent<string> {
+    selectEl: HTMLSelectElement
+
+    constructor(containerEl: HTMLElement) {
+        super()
+        this.selectEl = containerEl.createEl("select", { cls: "dropdown" }) as HTMLSelectElement
+        this.selectEl.addEventListener("change", () => this.changeCallback?.(this.getValue()))
+    }
+
+    /**
+     * Option values in display order.
+     */
+    get options(): string[] {
+        return Array.from(this.selectEl.options).map(option => option.value)
+    }
+
+    addOption(value: string, display: string): this {
+        this.selectEl.createEl("option", { value, text: display })
+        return this
+    }
+
+    addOptions(options: Record<string, string>): this {
+        for (const value of Object.keys(options)) {
+            this.addOption(value, options[value] ?? value)
+        }
+        return this
+    }
+
+    getValue(): string {
+        return this.selectEl.value
+    }
+
+    setValue(value: string): this {
+        this.selectEl.value = value
+        return this
+    }
+
+    async simulateChange(value: string): Promise<void> {
+        if (this.options.indexOf(value) < 0) {
+            throw new Error(`No dropdown option: ${value}`)
+        }
+        await super.simulateChange(value)
+    }
+}
+
+/**
+ * Base class for clickable controls, recording the click callback so tests
+ * can simulate clicks.
+ */
+abstract class ClickableComponent extends BaseComponent {
+    tooltip: string = ""
+    icon: string | null = null
+    private clickCallback: ((evt: MouseEvent) => unknown) | null = null
+
+    onClick(callback: (evt: MouseEvent) => unknown): this {
+        this.clickCallback = callback
+        return this
+    }
+
+    setTooltip(tooltip: string): this {
+        this.tooltip = tooltip
+        return this
+    }
+
+    setIcon(icon: string): this {
+        this.icon = icon
+        return this
+    }
+
+    /**
+     * Click the control and wait for the click callback to finish.
+     */
+    async simulateClick(): Promise<void> {
+        if (this.disabled) {
+            throw new Error("Cannot click a disabled control")
+        }
+        await this.clickCallback?.(new MouseEvent("click"))
+    }
+}
+
+export class ButtonComponent extends ClickableComponent {
+    buttonEl: HTMLButtonElement
+
+    constructor(containerEl: HTMLElement) {
+        super()
+        this.buttonEl = containerEl.createEl("button") as HTMLButtonElement
+    }
+
+    setButtonText(name: string): this {
+        this.buttonEl.setText(name)
+        return this
+    }
+
+    setCta(): this {
+        this.buttonEl.addClass("mod-cta")
+        return this
+    }
+
+    removeCta(): this {
+        this.buttonEl.removeClass("mod-cta")
+        return this
+    }
+
+    setWarning(): this {
+        this.buttonEl.addClass("mod-warning")
+        return this
+    }
+
+    setClass(cls: string): this {
+        this.buttonEl.addClass(cls)
+        return this
+    }
+
+    setDisabled(disabled: boolean): this {
+        this.buttonEl.disabled = disabled
+        return super.setDisabled(disabled)
+    }
+}
+
+export class ExtraButtonComponent extends ClickableComponent {
+    extraSettingsEl: HTMLElement
+
+    constructor(containerEl: HTMLElement) {
+        super()
+        this.extraSettingsEl = containerEl.createDiv({ cls: "clickable-icon extra-setting-button" })
+    }
+}
+
+/** Controls rendered by a Setting, in the order they were added. */
+export type SettingControl =
+    | ToggleComponent
+    | SliderComponent
+    | TextComponent
+    | TextAreaComponent
+    | DropdownComponent
+    | ButtonComponent
+    | ExtraButtonComponent
+
+const renderedSettings: WeakMap<Element, Setting> = new WeakMap()
+
+export class Setting {
+    settingEl: HTMLElement
+    infoEl: HTMLElement
+    nameEl: HTMLElement
+    descEl: HTMLElement
+    controlEl: HTMLElement
+
+    /** Controls added to this setting, in order. */
+    readonly controls: SettingControl[] = []
+
+    constructor(containerEl: HTMLElement) {
+        this.settingEl = containerEl.createDiv({ cls: "setting-item" })
+        this.infoEl = this.settingEl.createDiv({ cls: "setting-item-info" })
+        this.nameEl = this.infoEl.createDiv({ cls: "setting-item-name" })
+        this.descEl = this.infoEl.createDiv({ cls: "setting-item-description" })
+        this.controlEl = this.settingEl.createDiv({ cls: "setting-item-control" })
+
+        renderedSettings.set(this.settingEl, this)
+    }
+
+    /**
+     * Find the Setting that rendered an element.
+     */
+    static forElement(el: Element): Setting | undefined {
+        return renderedSettings.get(el)
+    }
+
+    /**
+     * The setting name as plain text.
+     */
+    get name(): string {
+        return this.nameEl.textContent ?? ""
+    }
+
+    /**
+     * The setting description as plain text.
+     */
+    get description(): string {
+        return this.descEl.textContent ?? ""
+    }
+
+    setName(name: string | DocumentFragment): this {
+        this.nameEl.setText(name)
+        return this
+    }
+
+    setDesc(desc: string | DocumentFragment): this {
+        this.descEl.setText(desc)
+        return this
+    }
+
+    setClass(cls: string): this {
+        this.settingEl.addClass(cls)
+        return this
+    }
+
+    setTooltip(tooltip: string): this {
+        this.nameEl.setAttr("aria-label", tooltip)
+        return this
+    }
+
+    setHeading(): this {
+        this.settingEl.addClass("setting-item-heading")
+        return this
+    }
+
+    setDisabled(disabled: boolean): this {
+        this.settingEl.toggleClass("is-disabled", disabled)
+        this.controls.forEach(control => control.setDisabled(disabled))
+        return this
+    }
+
+    addToggle(cb: (component: ToggleComponent) => unknown): this {
+        return this.addControl(new ToggleComponent(this.controlEl), cb)
+    }
+
+    addSlider(cb: (component: SliderComponent) => unknown): this {
+        return this.addControl(new SliderComponent(this.controlEl), cb)
+    }
+
+    addText(cb: (component: TextComponent) => unknown): this {
+        return this.addControl(new TextComponent(this.controlEl), cb)
+    }
+
+    addTextArea(cb: (component: TextAreaComponent) => unknown): this {
+        return this.addControl(new TextAreaComponent(this.controlEl), cb)
+    }
+
+    addDropdown(cb: (component: DropdownComponent) => unknown): this {
+        return this.addControl(new DropdownComponent(this.controlEl), cb)
+    }
+
+    addButton(cb: (component: ButtonComponent) => unknown): this {
+        return this.addControl(new ButtonComponent(this.controlEl), cb)
+    }
+
+    addExtraButton(cb: (component: ExtraButtonComponent) => unknown): this {
+        return this.addControl(new ExtraButtonComponent(this.controlEl), cb)
+    }
+
+    then(cb: (setting: this) => unknown): this {
+        cb(this)
+        return this
+    }
+
+    clear(): this {
+        this.controlEl.empty()
+        this.controls.splice(0)
+        return this
+    }
+
+    private addControl<C extends SettingControl>(control: C, cb: (component: C) => unknown): this {
+        this.controls.push(control)
+        cb(control)
+        return this
+    }
+}
+
+/**
+ * The length of a string in bytes when encoded as UTF-8.
+ */
+function utf8Length(text: string): number {
+    let bytes = 0
+
+    for (const char of text) {
+        const code = char.codePointAt(0) ?? 0
+        bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4
+    }
+
+    return bytes
+}
@@ -0,0 +1,65 @@
+import type { Plugin as ObsidianPlugin } from "obsidian"
+
+import { App, Plugin, PluginManifest } from "./obsidian"
+
+/** Options for creating a MockPlugin. */
+export interface MockPluginOptions {
+    /** Initial contents of `data.json`; `null` simulates a first run (default: `null`). */
+    data?: Record<string, unknown> | null
+    /** Manifest fields to override. */
+    manifest?: Partial<PluginManifest>
+    /** App to attach the plugin to; a fresh in-memory app by default. */
+    app?: App
+}
+
+/**
+ * In-memory plugin double that records what was saved.
+ */
+export class MockPlugin extends Plugin {
+    /** Number of times `saveData()` has been called. */
+    saveCount: number = 0
+
+    /**
+     * The current contents of `data.json`.
+     */
+    get savedData(): Record<string, unknown> | null {
+        return this.data as Record<string, unknown> | null
+    }
+
+    /**
+     * Replace the contents of `data.json`, e.g. to simulate an external change.
+     */
+    setData(data: Record<string, unknown> | null): void {
+        this.data = structuredClone(data)
+    }
+
+    async saveData(data: unknown): Promise<void> {
+        this.saveCount++
+        await super.saveData(data)
+    }
+}
+
+/**
+ * Create a loaded, in-memory plugin for tests.
+ *
+ * The result is typed as an Obsidian `Plugin` as well, so it can be passed
+ * straight to `PluginConfig.load()` and other APIs that expect one.
+ */
+export function createMockPlugin(options: MockPluginOptions = {}): MockPlugin & ObsidianPlugin {
+    const manifest: PluginManifest = {
+        id: "test-plugin",
+        name: "Test Plugin",
+        version: "1.0.0",
+        minAppVersion: "1.0.0",
+        author: "obskit",
+        description: "Plugin double for tests",
+        dir: ".obsidian/plugins/test-plugin",
+        ...options.manifest,
+    }
+
+    const plugin = new MockPlugin(options.app ?? new App(), manifest)
+    plugin.setData(options.data ?? null)
+    plugin.load()
+
+    return plugin as MockPlugin & ObsidianPlugin
+}
@@ -0,0 +1,135 @@
+import {
+    ButtonComponent,
+    DropdownComponent,
+    ExtraButtonComponent,
+    Setting,
+    SettingControl,
+    SliderComponent,
+    TextAreaComponent,
+    TextComponent,
+    ToggleComponent,
+} from "./obsidian"
+
+/** A rendered setting, e.g. the value returned by `BaseSetting.display()`. */
+export interface SettingRef {
+    settingEl: HTMLElement
+}
+
+/**
+ * All settings rendered inside a container, in document order.
+ */
+export function findSettings(containerEl: HTMLElement): Setting[] {
+    const settings: Setting[] = []
+
+    containerEl.querySelectorAll(".setting-item").forEach(el => {
+        const setting = Setting.forElement(el)
+        if (setting) settings.push(setting)
+    })
+
+    return settings
+}
+
+/**
+ * Find a rendered setting by name. Throws if there is no such setting.
+ */
+export function findSetting(containerEl: HTMLElement, name: string): Setting {
+    const setting = findSettings(containerEl).find(s => s.name === name)
+
+    if (!setting) {
+        throw new Error(`No setting named: ${name}`)
+    }
+
+    return setting
+}
+
+/**
+ * Flip a setting's toggle, waiting for its change handler to finish.
+ */
+export async function simulateToggle(ref: SettingRef, value: boolean): Promise<void> {
+    await control(ref, ToggleComponent, "toggle").simulateChange(value)
+}
+
+/**
+ * Move a setting's slider, waiting for its change handler to finish.
+ */
+export async function simulateSlider(ref: SettingRef, value: number): Promise<void> {
+    await control(ref, SliderComponent, "slider").simulateChange(value)
+}
+
+/**
+ * Type into a setting's text input or text area, waiting for its change
+ * handler to finish.
+ */
+export async function simulateText(ref: SettingRef, value: string): Promise<void> {
+    const setting = resolve(ref)
+    const input = setting.controls.find(
+        (c): c is TextComponent | TextAreaComponent =>
+            c instanceof TextComponent || c instanceof TextAreaComponent
+    )
+
+    if (!input) {
+        throw new Error(`Setting has no text input: ${setting.name}`)
+    }
+
+    await input.simulateChange(value)
+}
+
+/**
+ * Choose a dropdown option by key, waiting for its change handler to finish.
+ */
+export async function simulateDropdown(ref: SettingRef, key: string): Promise<void> {
+    await control(ref, DropdownComponent, "dropdown").simulateChange(key)
+}
+
+/**
+ * Click a setting's button, waiting for its click handler to finish.
+ *
+ * Buttons are matched by text, tooltip or icon; with no label, the first
+ * button is clicked.
+ */
+export async function simulateClick(ref: SettingRef, label?: string): Promise<void> {
+    const setting = resolve(ref)
+    const button = setting.controls.find(
+        (c): c is ButtonComponent | ExtraButtonComponent =>
+            (c instanceof ButtonComponent || c instanceof ExtraButtonComponent) &&
+            (label === undefined || buttonLabels(c).indexOf(label) >= 0)
+    )
+
+    if (!button) {
+        throw new Error(`Setting has no button${label ? ` '${label}'` : ""}: ${setting.name}`)
+    }
+
+    await button.simulateClick()
+}
+
+function resolve(ref: SettingRef): Setting {
+    const setting = Setting.forElement(ref.settingEl)
+
+    if (!setting) {
+        throw new Error("Setting was not rendered by the obskit/testing Setting")
+    }
+
+    return setting
+}
+
+function control<C extends SettingControl>(
+    ref: SettingRef,
+    type: abstract new (...args: never[]) => C,
+    kind: string
+): C {
+    const setting = resolve(ref)
+    const found = setting.controls.find((c): c is C => c instanceof type)
+
+    if (!found) {
+        throw new Error(`Setting has no ${kind}: ${setting.name}`)
+    }
+
+    return found
+}
+
+function buttonLabels(button: ButtonComponent | ExtraButtonComponent): string[] {
+    const labels = [button.tooltip]
+    if (button.icon) labels.push(button.icon)
+    if (button instanceof ButtonComponent) labels.push(button.buttonEl.textContent ?? "")
+    return labels
+}
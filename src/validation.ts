@@ -0,0 +1,110 @@
+import { isPlainObject } from "./objects"
+
+/** Validator or type guard for a single settings value. */
+export type Validator = (value: unknown) => boolean
+
+/** Validators keyed by dotted settings path (e.g. `rendering.size`). */
+export type Validators = Record<string, Validator>
+
+/** A single value that failed validation and was replaced with its default. */
+export interface ValidationIssue {
+    /** Dotted path of the offending value. */
+    path: string
+    /** The value found in the saved data. */
+    value: unknown
+    /** The default value used in its place. */
+    replacement: unknown
+    /** Human readable description of the problem. */
+    reason: string
+}
+
+/** Structured result of validating settings against their defaults. */
+export interface ValidationReport {
+    valid: boolean
+    issues: ValidationIssue[]
+}
+
+/** Options controlling how settings are validated. */
+export interface ValidationOptions {
+    /** Per-path validators; these take precedence over inferred type checks. */
+    validators?: Validators
+    /** Check that each value has the same type as its default (default: true). */
+    inferTypes?: boolean
+}
+
+/**
+ * Validate merged settings against their defaults.
+ *
+ * Invalid values are replaced (in place) with a copy of the corresponding
+ * default. Keys that do not exist in `defaults` are never checked.
+ */
+export function validateSettings(
+    defaults: Record<string, unknown>,
+    settings: Record<string, unknown>,
+    options: ValidationOptions = {}
+): ValidationReport {
+    const issues: ValidationIssue[] = []
+
+    validateObject(defaults, settings, "", options, issues)
+
+    return { valid: issues.length === 0, issues }
+}
+
+/**
+ * Describe the type of a value for validation messages.
+ */
+function describeType(value: unknown): string {
+    if (value === null) return "null"
+    if (Array.isArray(value)) return "array"
+    if (isPlainObject(value)) return "object"
+    if (typeof value === "number" && Number.isNaN(value)) return "NaN"
+    return typeof value
+}
+
+/**
+ * Check whether a value matches the type of its default.
+ *
+ * Defaults of `null` or `undefined` accept any value.
+ */
+function matchesType(defaultVal: unknown, value: unknown): boolean {
+    if (defaultVal === null || defaultVal === undefined) return true
+    if (typeof defaultVal === "number") {
+        return typeof value === "number" && !Number.isNaN(value)
+    }
+    return describeType(defaultVal) === describeType(value)
+}
+
+function validateObject(
+    defaults: Record<string, unknown>,
+    settings: Record<string, unknown>,
+    prefix: string,
+    options: ValidationOptions,
+    issues: ValidationIssue[]
+): void {
+    const inferTypes = options.inferTypes ?? true
+
+    for (const key of Object.keys(defaults)) {
+        const path = prefix ? `${prefix}.${key}` : key
+        const defaultVal = defaults[key]
+        const value = settings[key]
+        const validator = options.validators?.[path]
+
+        let reason: string | null = null
+
+        if (validator) {
+            if (!validator(value)) {
+                reason = "rejected by validator"
+            }
+        } else if (inferTypes && !matchesType(defaultVal, value)) {
+            reason = `expected ${describeType(defaultVal)}, found ${describeType(value)}`
+        }
+
+        if (reason) {
+            const replacement = structuredClone(defaultVal)
+            issues.push({ path, value, replacement, reason })
+            settings[key] = replacement
+        } else if (isPlainObject(defaultVal) && isPlainObject(value)) {
+            validateObject(defaultVal, value, path, options, issues)
+        }
+    }
+}
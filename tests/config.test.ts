@@ -1,5 +1,15 @@
-import { describe, it, expect } from "@jest/globals"
-import { deepMerge, PluginConfig } from "../src/config"
+import { describe, it, expect, afterEach } from "@jest/globals"
+import {
+    BackupError,
+    deepDiff,
+    deepMerge,
+    FutureVersionError,
+    MigrationError,
+    PluginConfig,
+    threeWayMerge,
+} from "../src/config"
+import { Logger, LogLevel } from "../src/logger"
+import { createMockPlugin } from "../src/testing"
 
 describe("deepMerge", () => {
     it("returns defaults when saved is empty", () => {
@@ -67,16 +77,136 @@ describe("deepMerge", () => {
     })
 })
 
-// Mock Plugin — simulates Obsidian's loadData/saveData
-function createMockPlugin(data: Record<string, unknown> | null = null) {
-    let stored = data
-    return {
-        loadData: async () => structuredClone(stored),
-        saveData: async (d: Record<string, unknown>) => {
-            stored = structuredClone(d)
-        },
-        getSavedData: () => stored,
-    }
+describe("deepMerge array strategies", () => {
+    it("replaces arrays by default", () => {
+        const result = deepMerge({ items: [1, 2] }, { items: [3] })
+        expect(result.items).toEqual([3])
+    })
+
+    it("appends missing default items", () => {
+        const result = deepMerge(
+            { items: ["a", "b", "c"] },
+            { items: ["c", "x"] },
+            { arrays: { items: "append-missing" } }
+        )
+        expect(result.items).toEqual(["c", "x", "a", "b"])
+    })
+
+    it("does not resurrect default items the user has seen", () => {
+        const result = deepMerge(
+            { items: ["a", "b", "new"] },
+            { items: ["a"] },
+            { arrays: { items: "append-missing" }, seen: { items: ['"a"', '"b"'] } }
+        )
+        expect(result.items).toEqual(["a", "new"])
+    })
+
+    it("merges object items by key", () => {
+        const defaults = {
+            rules: [
+                { id: "one", enabled: true, weight: 1 },
+                { id: "two", enabled: true, weight: 2 },
+            ],
+        }
+        const saved = {
+            rules: [
+                { id: "one", enabled: false },
+                { id: "custom", enabled: true },
+            ],
+        }
+        const result = deepMerge(defaults, saved as Partial<typeof defaults>, {
+            arrays: { rules: { mergeBy: "id" } },
+        })
+        expect(result.rules).toEqual([
+            { id: "one", enabled: false, weight: 1 },
+            { id: "custom", enabled: true },
+            { id: "two", enabled: true, weight: 2 },
+        ])
+    })
+
+    it("applies strategies to nested paths", () => {
+        const result = deepMerge(
+            { nested: { items: [1, 2] } },
+            { nested: { items: [3] } },
+            { arrays: { "nested.items": "append-missing" } }
+        )
+        expect(result.nested.items).toEqual([3, 1, 2])
+    })
+})
+
+describe("deepDiff", () => {
+    it("returns an empty object when settings match defaults", () => {
+        const defaults = { a: 1, nested: { b: "x" }, items: [1, 2] }
+        expect(deepDiff(defaults, structuredClone(defaults))).toEqual({})
+    })
+
+    it("keeps only changed nested values", () => {
+        const defaults = { a: 1, nested: { b: "x", c: true } }
+        const settings = { a: 1, nested: { b: "y", c: true } }
+        expect(deepDiff(defaults, settings)).toEqual({ nested: { b: "y" } })
+    })
+
+    it("compares arrays as a whole", () => {
+        const defaults = { items: [1, 2] }
+        expect(deepDiff(defaults, { items: [1, 2, 3] })).toEqual({ items: [1, 2, 3] })
+    })
+
+    it("keeps falsy values and extra keys", () => {
+        const defaults: Record<string, unknown> = { enabled: true, count: 5 }
+        const settings = { enabled: false, count: 0, extra: null }
+        expect(deepDiff(defaults, settings)).toEqual({ enabled: false, count: 0, extra: null })
+    })
+
+    it("round-trips through deepMerge", () => {
+        const defaults = { a: 1, nested: { b: "x", c: [1] } }
+        const settings = { a: 2, nested: { b: "x", c: [2] } }
+        expect(deepMerge(defaults, deepDiff(defaults, settings))).toEqual(settings)
+    })
+})
+
+describe("threeWayMerge", () => {
+    const base = { a: 1, b: 2, nested: { x: "x", y: "y" } }
+
+    it("takes changes from either side", () => {
+        const local = { ...base, a: 10 }
+        const remote = { ...base, b: 20 }
+        expect(threeWayMerge(base, local, remote)).toEqual({
+            merged: { a: 10, b: 20, nested: { x: "x", y: "y" } },
+            conflicts: [],
+        })
+    })
+
+    it("merges nested objects key by key", () => {
+        const local = { ...base, nested: { x: "local", y: "y" } }
+        const remote = { ...base, nested: { x: "x", y: "remote" } }
+        expect(threeWayMerge(base, local, remote).merged.nested).toEqual({
+            x: "local",
+            y: "remote",
+        })
+    })
+
+    it("prefers remote values on conflict", () => {
+        const local = { ...base, a: 10 }
+        const remote = { ...base, a: 20 }
+        expect(threeWayMerge(base, local, remote)).toEqual({
+            merged: { ...base, a: 20 },
+            conflicts: ["a"],
+        })
+    })
+
+    it("honors keys removed on one side", () => {
+        const remote: Record<string, unknown> = { ...base }
+        delete remote.b
+        expect(threeWayMerge(base, { ...base }, remote).merged).toEqual({
+            a: 1,
+            nested: { x: "x", y: "y" },
+        })
+    })
+})
+
+// Mock Plugin — in-memory plugin double from obskit/testing
+function mockPlugin(data: Record<string, unknown> | null = null) {
+    return createMockPlugin({ data, manifest: { id: "test", dir: ".obsidian/plugins/test" } })
 }
 
 interface TestSettings {
@@ -94,32 +224,29 @@ const TEST_DEFAULTS: TestSettings = {
 
 describe("PluginConfig", () => {
     it("returns defaults on first run (null data)", async () => {
-        const mock = createMockPlugin(null)
+        const mock = mockPlugin()
         const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const result = await config.load(mock as any)
+        const result = await config.load(mock)
         expect(result).toEqual(TEST_DEFAULTS)
     })
 
     it("writes defaults and version to disk on first run", async () => {
-        const mock = createMockPlugin(null)
+        const mock = mockPlugin()
         const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await config.load(mock as any)
-        const saved = mock.getSavedData()
+        await config.load(mock)
+        const saved = mock.savedData
         expect(saved).toMatchObject({ ...TEST_DEFAULTS, __obskit_config_version__: 0 })
     })
 
     it("deep merges existing data with defaults", async () => {
-        const mock = createMockPlugin({
+        const mock = mockPlugin({
             __obskit_config_version__: 0,
             name: "custom",
             count: 42,
             nested: { enabled: false },
         })
         const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const result = await config.load(mock as any)
+        const result = await config.load(mock)
         expect(result).toEqual({
             name: "custom",
             count: 42,
@@ -128,7 +255,7 @@ describe("PluginConfig", () => {
     })
 
     it("does not save back when no migrations ran", async () => {
-        const mock = createMockPlugin({
+        const mock = mockPlugin({
             __obskit_config_version__: 0,
             name: "custom",
             count: 42,
@@ -139,14 +266,13 @@ describe("PluginConfig", () => {
         mock.saveData = async () => {
             saveCalled = true
         }
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await config.load(mock as any)
+        await config.load(mock)
         expect(saveCalled).toBe(false)
     })
 
     it("runs pending migrations in order", async () => {
         const order: number[] = []
-        const mock = createMockPlugin({
+        const mock = mockPlugin({
             __obskit_config_version__: 0,
             name: "old",
             count: 10,
@@ -165,14 +291,13 @@ describe("PluginConfig", () => {
                 },
             ],
         })
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const result = await config.load(mock as any)
+        const result = await config.load(mock)
         expect(order).toEqual([0, 1])
         expect(result.name).toBe("migrated-1")
     })
 
     it("skips already-applied migrations", async () => {
-        const mock = createMockPlugin({
+        const mock = mockPlugin({
             __obskit_config_version__: 1,
             name: "already-migrated",
             count: 10,
@@ -189,13 +314,12 @@ describe("PluginConfig", () => {
                 },
             ],
         })
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const result = await config.load(mock as any)
+        const result = await config.load(mock)
         expect(result.name).toBe("should-run")
     })
 
     it("saves back with updated version after migrations", async () => {
-        const mock = createMockPlugin({
+        const mock = mockPlugin({
             __obskit_config_version__: 0,
             name: "old",
             count: 10,
@@ -209,14 +333,13 @@ describe("PluginConfig", () => {
                 },
             ],
         })
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await config.load(mock as any)
-        const saved = mock.getSavedData()
+        await config.load(mock)
+        const saved = mock.savedData
         expect(saved).toMatchObject({ __obskit_config_version__: 1, name: "migrated" })
     })
 
     it("treats missing version field as version 0", async () => {
-        const mock = createMockPlugin({
+        const mock = mockPlugin({
             name: "pre-obskit",
             count: 5,
             nested: { enabled: false, color: "green" },
@@ -229,8 +352,7 @@ describe("PluginConfig", () => {
                 },
             ],
         })
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const result = await config.load(mock as any)
+        const result = await config.load(mock)
         expect(result.name).toBe("migrated-from-zero")
     })
 
@@ -246,7 +368,7 @@ describe("PluginConfig", () => {
             count: 10,
             nested: { enabled: true, color: "blue", size: 12 },
         }
-        const mock = createMockPlugin({
+        const mock = mockPlugin({
             __obskit_config_version__: 0,
             name: "custom",
             count: 42,
@@ -260,27 +382,25 @@ describe("PluginConfig", () => {
                 },
             ],
         })
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const result = await config.load(mock as any)
+        const result = await config.load(mock)
         expect(result.nested.size).toBe(12)
         expect(result.nested.color).toBe("red")
     })
 
     it("strips __obskit_config_version__ from returned settings", async () => {
-        const mock = createMockPlugin({
+        const mock = mockPlugin({
             __obskit_config_version__: 0,
             name: "test",
             count: 1,
             nested: { enabled: true, color: "blue" },
         })
         const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const result = await config.load(mock as any)
+        const result = await config.load(mock)
         expect("__obskit_config_version__" in result).toBe(false)
     })
 
     it("save() persists settings with version key", async () => {
-        const mock = createMockPlugin(null)
+        const mock = mockPlugin()
         const config = new PluginConfig<TestSettings>({
             defaults: TEST_DEFAULTS,
             migrations: [
@@ -290,15 +410,13 @@ describe("PluginConfig", () => {
             ],
         })
 
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await config.load(mock as any)
+        await config.load(mock)
 
         // Simulate user changing a setting and saving
         const settings = { ...TEST_DEFAULTS, name: "user-changed" }
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await config.save(mock as any, settings)
+        await config.save(mock, settings)
 
-        const saved = mock.getSavedData()
+        const saved = mock.savedData
         expect(saved).toMatchObject({
             name: "user-changed",
             __obskit_config_version__: 1,
@@ -306,7 +424,7 @@ describe("PluginConfig", () => {
     })
 
     it("save() preserves version across load/save cycle", async () => {
-        const mock = createMockPlugin(null)
+        const mock = mockPlugin()
         const config = new PluginConfig<TestSettings>({
             defaults: TEST_DEFAULTS,
             migrations: [
@@ -317,17 +435,1218 @@ describe("PluginConfig", () => {
         })
 
         // First load — runs migration
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const result = await config.load(mock as any)
+        const result = await config.load(mock)
 
         // Save with user changes
         result.name = "user-changed"
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await config.save(mock as any, result)
+        await config.save(mock, result)
 
         // Second load — should NOT re-run migrations
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const result2 = await config.load(mock as any)
+        const result2 = await config.load(mock)
         expect(result2.name).toBe("user-changed") // NOT "migrated"
     })
+
+    it("replaces invalid values with defaults and reports them", async () => {
+        const mock = mockPlugin({
+            __obskit_config_version__: 0,
+            name: "custom",
+            count: "abc",
+            nested: { enabled: null, color: "red" },
+        })
+        const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+        const result = await config.load(mock)
+        expect(result).toEqual({
+            name: "custom",
+            count: 10,
+            nested: { enabled: true, color: "red" },
+        })
+        expect(config.validation.valid).toBe(false)
+        expect(config.validation.issues.map(issue => issue.path)).toEqual([
+            "count",
+            "nested.enabled",
+        ])
+    })
+
+    it("applies custom validators on load", async () => {
+        const mock = mockPlugin({
+            __obskit_config_version__: 0,
+            name: "",
+            count: 42,
+            nested: { enabled: true, color: "blue" },
+        })
+        const config = new PluginConfig<TestSettings>({
+            defaults: TEST_DEFAULTS,
+            validators: { name: value => typeof value === "string" && value.length > 0 },
+        })
+        const result = await config.load(mock)
+        expect(result.name).toBe("default")
+        expect(result.count).toBe(42)
+    })
+
+    it("updates the store on load and save", async () => {
+        const mock = mockPlugin({
+            __obskit_config_version__: 0,
+            name: "loaded",
+            count: 1,
+            nested: { enabled: true, color: "blue" },
+        })
+        const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+        const names: string[] = []
+        config.store.subscribe("name", value => names.push(value))
+
+        const result = await config.load(mock)
+        expect(config.store.value).toBe(result)
+
+        result.name = "saved"
+        await config.save(mock, result)
+        expect(names).toEqual(["loaded", "saved"])
+    })
+
+    it("coalesces debounced saves and writes the latest settings", async () => {
+        const mock = mockPlugin()
+        const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS, saveDelay: 20 })
+        const settings = await config.load(mock)
+        const writes = mock.saveCount
+
+        settings.name = "a"
+        const first = config.save(mock, settings)
+        settings.name = "ab"
+        const second = config.save(mock, settings)
+        await Promise.all([first, second])
+
+        expect(mock.saveCount - writes).toBe(1)
+        expect(mock.savedData).toMatchObject({ name: "ab" })
+    })
+
+    it("flush() writes pending saves immediately", async () => {
+        const mock = mockPlugin()
+        const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS, saveDelay: 10000 })
+        const settings = await config.load(mock)
+
+        settings.name = "flushed"
+        void config.save(mock, settings)
+        await config.flush()
+
+        expect(mock.savedData).toMatchObject({ name: "flushed" })
+    })
+
+    it("supports async migrations", async () => {
+        const mock = mockPlugin({ __obskit_config_version__: 0, name: "old" })
+        const config = new PluginConfig<TestSettings>({
+            defaults: TEST_DEFAULTS,
+            migrations: [
+                async data => {
+                    await Promise.resolve()
+                    data.name = "async"
+                },
+            ],
+        })
+        const result = await config.load(mock)
+        expect(result.name).toBe("async")
+    })
+
+    it("throws MigrationError and leaves data untouched when a migration fails", async () => {
+        const original = { __obskit_config_version__: 0, name: "old", count: 1 }
+        const mock = mockPlugin(structuredClone(original))
+        let saveCalled = false
+        mock.saveData = async () => {
+            saveCalled = true
+        }
+        const config = new PluginConfig<TestSettings>({
+            defaults: TEST_DEFAULTS,
+            migrations: [
+                data => {
+                    data.name = "partial"
+                },
+                () => {
+                    throw new Error("boom")
+                },
+            ],
+        })
+
+        const error = await config.load(mock).catch(err => err)
+        expect(error).toBeInstanceOf(MigrationError)
+        expect(error.step).toBe(1)
+        expect(error.message).toBe("Migration 1 failed: boom")
+        expect(saveCalled).toBe(false)
+        expect(mock.savedData).toEqual(original)
+        expect(mock.app.vault.adapter.files.size).toBe(0)
+    })
+
+    it("writes a backup of the original data before saving migrations", async () => {
+        const original = { __obskit_config_version__: 0, name: "old" }
+        const mock = mockPlugin(structuredClone(original))
+        const config = new PluginConfig<TestSettings>({
+            defaults: TEST_DEFAULTS,
+            migrations: [
+                data => {
+                    data.name = "new"
+                },
+            ],
+        })
+        await config.load(mock)
+
+        const backups = [...mock.app.vault.adapter.files.entries()]
+        expect(backups).toHaveLength(1)
+        expect(backups[0]?.[0]).toMatch(/^\.obsidian\/plugins\/test\/data\..+\.bak\.json$/)
+        expect(JSON.parse(backups[0]?.[1] ?? "")).toEqual(original)
+        expect(mock.savedData).toMatchObject({ name: "new" })
+    })
+
+    it("does not save migrated data when the backup fails", async () => {
+        const mock = mockPlugin({ __obskit_config_version__: 0, name: "old" })
+        mock.app.vault.adapter.write = async () => {
+            throw new Error("read-only")
+        }
+        const config = new PluginConfig<TestSettings>({
+            defaults: TEST_DEFAULTS,
+            migrations: [
+                data => {
+                    data.name = "new"
+                },
+            ],
+        })
+        const result = await config.load(mock)
+        expect(result.name).toBe("new")
+        expect(mock.savedData).toMatchObject({ __obskit_config_version__: 0, name: "old" })
+    })
+
+    it("rejects saves until the backup of migrated data is written", async () => {
+        const original = { __obskit_config_version__: 0, name: "old" }
+        const mock = mockPlugin(structuredClone(original))
+        const write = mock.app.vault.adapter.write.bind(mock.app.vault.adapter)
+        mock.app.vault.adapter.write = async () => {
+            throw new Error("read-only")
+        }
+        const config = new PluginConfig<TestSettings>({
+            defaults: TEST_DEFAULTS,
+            migrations: [
+                data => {
+                    data.name = "new"
+                },
+            ],
+        })
+        const result = await config.load(mock)
+
+        result.count = 5
+        await expect(config.save(mock, result)).rejects.toBeInstanceOf(BackupError)
+        expect(mock.savedData).toEqual(original)
+
+        mock.app.vault.adapter.write = write
+        await config.save(mock, result)
+
+        const backups = [...mock.app.vault.adapter.files.values()]
+        expect(backups.map(data => JSON.parse(data))).toEqual([original])
+        expect(mock.savedData).toMatchObject({ __obskit_config_version__: 1, count: 5 })
+    })
+
+    it("skips backups for first run data", async () => {
+        const mock = mockPlugin()
+        const config = new PluginConfig<TestSettings>({
+            defaults: TEST_DEFAULTS,
+            migrations: [() => undefined],
+        })
+        await config.load(mock)
+        expect(mock.app.vault.adapter.files.size).toBe(0)
+    })
+
+    describe("future versions", () => {
+        const FUTURE_DATA = {
+            __obskit_config_version__: 3,
+            name: "from-the-future",
+            count: 1,
+            nested: { enabled: true, color: "blue" },
+            futureKey: "keep me",
+        }
+
+        it("reports newer stored versions", async () => {
+            const mock = mockPlugin(structuredClone(FUTURE_DATA))
+            const reports: unknown[] = []
+            const config = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                migrations: [() => undefined],
+                onFutureVersion: info => reports.push(info),
+            })
+            const result = await config.load(mock)
+
+            const expected = {
+                storedVersion: 3,
+                currentVersion: 1,
+                unknownMigrations: [],
+                policy: "readonly",
+            }
+            expect(result.name).toBe("from-the-future")
+            expect(reports).toEqual([expected])
+            expect(config.futureVersion).toEqual(expected)
+            expect(config.readOnly).toBe(true)
+        })
+
+        it("skips saves in readonly mode", async () => {
+            const mock = mockPlugin(structuredClone(FUTURE_DATA))
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const result = await config.load(mock)
+
+            result.name = "changed"
+            await config.save(mock, result)
+
+            expect(mock.savedData).toEqual(FUTURE_DATA)
+            expect(config.store.value.name).toBe("changed")
+            expect(config.history.canUndo).toBe(false)
+        })
+
+        it("rejects saves with the refuse policy", async () => {
+            const mock = mockPlugin(structuredClone(FUTURE_DATA))
+            const config = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                futureVersionPolicy: "refuse",
+            })
+            const result = await config.load(mock)
+
+            result.name = "changed"
+            await expect(config.save(mock, result)).rejects.toBeInstanceOf(FutureVersionError)
+            expect(mock.savedData).toEqual(FUTURE_DATA)
+            expect(config.history.canUndo).toBe(false)
+        })
+
+        it("does not save migrations on load unless the policy allows it", async () => {
+            for (const futureVersionPolicy of ["readonly", "refuse"] as const) {
+                const mock = mockPlugin(structuredClone(FUTURE_DATA))
+                const config = new PluginConfig<TestSettings>({
+                    defaults: TEST_DEFAULTS,
+                    migrations: [() => undefined, { id: "named", migrate: () => undefined }],
+                    futureVersionPolicy,
+                })
+                await config.load(mock)
+
+                expect(mock.saveCount).toBe(0)
+                expect(mock.savedData).toEqual(FUTURE_DATA)
+                expect(mock.app.vault.adapter.files.size).toBe(0)
+            }
+        })
+
+        it("saves with the warn policy, preserving the newer version and unknown keys", async () => {
+            const mock = mockPlugin(structuredClone(FUTURE_DATA))
+            const config = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                futureVersionPolicy: "warn",
+            })
+            const result = await config.load(mock)
+
+            result.name = "changed"
+            await config.save(mock, result)
+
+            expect(config.readOnly).toBe(false)
+            expect(mock.savedData).toEqual({ ...FUTURE_DATA, name: "changed" })
+        })
+    })
+
+    describe("named migrations", () => {
+        it("runs named migrations and records their ids", async () => {
+            const mock = mockPlugin({ __obskit_config_version__: 0, name: "old" })
+            const config = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                migrations: [
+                    {
+                        id: "rename-name",
+                        description: "set a new name",
+                        migrate: data => {
+                            data.name = "renamed"
+                        },
+                    },
+                ],
+            })
+            const result = await config.load(mock)
+            expect(result.name).toBe("renamed")
+            expect(mock.savedData).toMatchObject({
+                __obskit_config_version__: 0,
+                __obskit_migrations__: ["rename-name"],
+            })
+            expect("__obskit_migrations__" in result).toBe(false)
+        })
+
+        it("skips recorded migrations regardless of position", async () => {
+            const ran: string[] = []
+            const mock = mockPlugin({
+                __obskit_config_version__: 0,
+                __obskit_migrations__: ["first", "second"],
+            })
+            const config = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                migrations: [
+                    { id: "inserted", migrate: () => void ran.push("inserted") },
+                    { id: "second", migrate: () => void ran.push("second") },
+                    { id: "first", migrate: () => void ran.push("first") },
+                ],
+            })
+            await config.load(mock)
+            expect(ran).toEqual(["inserted"])
+            expect(mock.savedData).toMatchObject({
+                __obskit_migrations__: ["first", "second", "inserted"],
+            })
+        })
+
+        it("counts only unnamed migrations against the numeric version", async () => {
+            const ran: string[] = []
+            const mock = mockPlugin({ __obskit_config_version__: 2 })
+            const config = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                migrations: [
+                    () => void ran.push("0"),
+                    { id: "new", migrate: () => void ran.push("new") },
+                    () => void ran.push("1"),
+                ],
+            })
+            await config.load(mock)
+            expect(ran).toEqual(["new"])
+            expect(mock.savedData).toMatchObject({
+                __obskit_config_version__: 2,
+                __obskit_migrations__: ["new"],
+            })
+        })
+
+        it("mixes unnamed and named migrations", async () => {
+            const ran: string[] = []
+            const mock = mockPlugin({ __obskit_config_version__: 1 })
+            const config = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                migrations: [
+                    () => void ran.push("0"),
+                    () => void ran.push("1"),
+                    { id: "named", migrate: () => void ran.push("named") },
+                ],
+            })
+            await config.load(mock)
+            expect(ran).toEqual(["1", "named"])
+        })
+
+        it("names the failing migration in MigrationError", async () => {
+            const mock = mockPlugin({ __obskit_config_version__: 0 })
+            const config = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                migrations: [
+                    {
+                        id: "broken",
+                        migrate: () => {
+                            throw new Error("boom")
+                        },
+                    },
+                ],
+            })
+            const error = await config.load(mock).catch(err => err)
+            expect(error).toBeInstanceOf(MigrationError)
+            expect(error.id).toBe("broken")
+            expect(error.message).toBe("Migration broken failed: boom")
+        })
+
+        it("requires existing unnamed migrations to stay unnamed", async () => {
+            const rename = (data: Record<string, unknown>) => {
+                data.name = "renamed"
+            }
+
+            const kept = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                migrations: [rename, { id: "next", migrate: () => undefined }],
+            })
+            await kept.load(mockPlugin({ __obskit_config_version__: 1 }))
+            expect(kept.futureVersion).toBeNull()
+            expect(kept.appliedMigrationIds).toEqual(["next"])
+
+            const converted = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                migrations: [{ id: "rename", migrate: rename }],
+            })
+            await converted.load(mockPlugin({ __obskit_config_version__: 1 }))
+            expect(converted.futureVersion).toMatchObject({ storedVersion: 1, currentVersion: 0 })
+            expect(converted.readOnly).toBe(true)
+        })
+
+        it("tolerates removed named migrations", async () => {
+            const mock = mockPlugin({
+                __obskit_config_version__: 0,
+                __obskit_migrations__: ["known", "removed"],
+                name: "kept",
+            })
+            const config = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                migrations: [{ id: "known", migrate: () => undefined }],
+            })
+            const result = await config.load(mock)
+            expect(config.futureVersion).toBeNull()
+            expect(config.readOnly).toBe(false)
+
+            result.count = 7
+            await config.save(mock, result)
+            expect(mock.savedData).toMatchObject({
+                count: 7,
+                __obskit_migrations__: ["known", "removed"],
+            })
+        })
+
+        it("reports unknown ids when the stored version is newer", async () => {
+            const mock = mockPlugin({
+                __obskit_config_version__: 2,
+                __obskit_migrations__: ["known", "from-the-future"],
+            })
+            const config = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                migrations: [() => undefined, { id: "known", migrate: () => undefined }],
+            })
+            await config.load(mock)
+            expect(config.futureVersion?.unknownMigrations).toEqual(["from-the-future"])
+            expect(config.readOnly).toBe(true)
+        })
+
+        it("rejects duplicate ids", () => {
+            expect(
+                () =>
+                    new PluginConfig<TestSettings>({
+                        defaults: TEST_DEFAULTS,
+                        migrations: [
+                            { id: "dup", migrate: () => undefined },
+                            { id: "dup", migrate: () => undefined },
+                        ],
+                    })
+            ).toThrow("Duplicate migration id: dup")
+        })
+    })
+
+    describe("export and import", () => {
+        it("exports a versioned document", async () => {
+            const mock = mockPlugin()
+            const config = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                migrations: [{ id: "first", migrate: () => undefined }],
+            })
+            const settings = await config.load(mock)
+
+            const doc = JSON.parse(config.exportSettings({ ...settings, name: "exported" }))
+            expect(doc).toMatchObject({
+                format: "obskit-settings",
+                version: 0,
+                migrations: ["first"],
+                settings: { ...TEST_DEFAULTS, name: "exported" },
+            })
+            expect(typeof doc.exported).toBe("string")
+        })
+
+        it("round-trips exported settings", async () => {
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const settings = { ...TEST_DEFAULTS, count: 99 }
+            const result = await config.importSettings(config.exportSettings(settings))
+            expect(result.settings).toEqual(settings)
+            expect(result.unknownKeys).toEqual([])
+            expect(result.droppedKeys).toEqual([])
+            expect(result.validation.valid).toBe(true)
+        })
+
+        it("migrates, merges and validates imported data", async () => {
+            const config = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                migrations: [
+                    data => {
+                        data.name = data.userName
+                        delete data.userName
+                    },
+                ],
+            })
+            const json = JSON.stringify({
+                __obskit_config_version__: 0,
+                userName: "imported",
+                count: "many",
+                nested: { color: "red" },
+            })
+
+            const result = await config.importSettings(json)
+            expect(result.settings).toEqual({
+                name: "imported",
+                count: 10,
+                nested: { enabled: true, color: "red" },
+            })
+            expect(result.droppedKeys).toEqual(["userName"])
+            expect(result.validation.issues.map(issue => issue.path)).toEqual(["count"])
+        })
+
+        it("discards and reports unknown keys", async () => {
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const json = JSON.stringify({ name: "x", other: 1, nested: { extra: true } })
+
+            const result = await config.importSettings(json)
+            expect(result.unknownKeys).toEqual(["other", "nested.extra"])
+            expect(result.settings).toEqual({ ...TEST_DEFAULTS, name: "x" })
+        })
+
+        it("discards unknown objects as a whole", async () => {
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const json = JSON.stringify({ extra: { a: 1, b: 2 }, nested: { more: { c: 3 } } })
+
+            const result = await config.importSettings(json)
+            expect(result.unknownKeys).toEqual(["extra.a", "extra.b", "nested.more.c"])
+            expect(result.settings).toEqual(TEST_DEFAULTS)
+        })
+
+        it("rejects settings from a newer version", async () => {
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const json = JSON.stringify({ __obskit_config_version__: 5 })
+            await expect(config.importSettings(json)).rejects.toThrow("newer plugin version")
+        })
+
+        it("rejects documents that are not objects", async () => {
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            await expect(config.importSettings("[1, 2]")).rejects.toThrow("JSON object")
+        })
+
+        it("applies imported settings in place and saves them", async () => {
+            const mock = mockPlugin()
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const settings = await config.load(mock)
+            const json = JSON.stringify({ name: "imported", nested: { color: "red" } })
+
+            const applied = await config.applyImport(await config.importSettings(json))
+
+            expect(applied).toBe(settings)
+            expect(settings).toEqual({
+                ...TEST_DEFAULTS,
+                name: "imported",
+                nested: { enabled: true, color: "red" },
+            })
+            expect(mock.savedData).toMatchObject({ name: "imported" })
+        })
+    })
+
+    describe("sparse persistence", () => {
+        it("saves only values that differ from defaults", async () => {
+            const mock = mockPlugin()
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS, sparse: true })
+            const settings = await config.load(mock)
+            expect(mock.savedData).toEqual({ __obskit_config_version__: 0 })
+
+            settings.nested.color = "red"
+            await config.save(mock, settings)
+            expect(mock.savedData).toEqual({
+                __obskit_config_version__: 0,
+                nested: { color: "red" },
+            })
+        })
+
+        it("picks up changed defaults for values that were not customized", async () => {
+            const mock = mockPlugin({ __obskit_config_version__: 0, count: 42 })
+            const config = new PluginConfig<TestSettings>({
+                defaults: { ...TEST_DEFAULTS, name: "improved" },
+                sparse: true,
+            })
+            const settings = await config.load(mock)
+            expect(settings.name).toBe("improved")
+            expect(settings.count).toBe(42)
+        })
+
+        it("reports customized values", async () => {
+            const mock = mockPlugin({ __obskit_config_version__: 0, count: 42 })
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            await config.load(mock)
+            expect(config.diffFromDefaults()).toEqual({ count: 42 })
+        })
+    })
+
+    describe("external changes", () => {
+        const STORED = {
+            __obskit_config_version__: 0,
+            name: "stored",
+            count: 1,
+            nested: { enabled: true, color: "blue" },
+        }
+
+        it("reloads external changes into the current settings object", async () => {
+            const mock = mockPlugin(structuredClone(STORED))
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const settings = await config.load(mock)
+            const events: unknown[] = []
+            config.onExternalChange(event => events.push(event))
+            await mock.saveData({ ...STORED, count: 5 })
+            const event = await config.handleExternalChange(mock)
+
+            expect(settings.count).toBe(5)
+            expect(event).toEqual({
+                changes: [{ path: "count", oldValue: 1, newValue: 5 }],
+                conflicts: [],
+            })
+            expect(events).toEqual([event])
+        })
+
+        it("keeps unsaved local changes that do not conflict", async () => {
+            const mock = mockPlugin(structuredClone(STORED))
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const settings = await config.load(mock)
+
+            settings.name = "local"
+            config.store.update()
+            await mock.saveData({ ...STORED, count: 5 })
+            await config.handleExternalChange(mock)
+
+            expect(settings).toMatchObject({ name: "local", count: 5 })
+            expect(mock.savedData).toMatchObject({ name: "local", count: 5 })
+        })
+
+        it("reports conflicts and keeps the external value", async () => {
+            const mock = mockPlugin(structuredClone(STORED))
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const settings = await config.load(mock)
+
+            settings.count = 2
+            config.store.update()
+            await mock.saveData({ ...STORED, count: 3 })
+            const event = await config.handleExternalChange(mock)
+
+            expect(settings.count).toBe(3)
+            expect(event.conflicts).toEqual(["count"])
+        })
+
+        it("ignores reloads of our own saves", async () => {
+            const mock = mockPlugin(structuredClone(STORED))
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const settings = await config.load(mock)
+            let notified = false
+            config.onExternalChange(() => {
+                notified = true
+            })
+
+            settings.name = "saved"
+            await config.save(mock, settings)
+            const event = await config.handleExternalChange(mock)
+
+            expect(event.changes).toEqual([])
+            expect(notified).toBe(false)
+        })
+    })
+
+    describe("path accessors", () => {
+        it("reads nested values with inferred types", async () => {
+            const mock = mockPlugin()
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            await config.load(mock)
+
+            const color: string = config.get("nested.color")
+            const enabled: boolean = config.get("nested.enabled")
+            expect(color).toBe("blue")
+            expect(enabled).toBe(true)
+        })
+
+        it("sets nested values and saves", async () => {
+            const mock = mockPlugin()
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const settings = await config.load(mock)
+
+            await config.set("nested.color", "red")
+            expect(settings.nested.color).toBe("red")
+            expect(mock.savedData).toMatchObject({ nested: { color: "red" } })
+        })
+
+        it("rejects wrong value types and unknown paths at compile time", () => {
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+
+            // never called; these fail `tsc -p tsconfig.eslint.json` if they type-check
+            const invalid = () => {
+                // @ts-expect-error -- value type is inferred from the path
+                void config.set("count", "not a number")
+                // @ts-expect-error -- unknown paths are rejected
+                void config.set("nested.typo", 5)
+                // @ts-expect-error -- unknown paths are rejected
+                config.get("extra")
+            }
+            void invalid
+        })
+
+        it("resets a single path to its default", async () => {
+            const mock = mockPlugin({
+                __obskit_config_version__: 0,
+                name: "custom",
+                nested: { enabled: false, color: "red" },
+            })
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const settings = await config.load(mock)
+
+            await config.reset("nested.color")
+            expect(settings).toEqual({
+                ...TEST_DEFAULTS,
+                name: "custom",
+                nested: { enabled: false, color: "blue" },
+            })
+        })
+
+        it("resets all settings in place", async () => {
+            const mock = mockPlugin({
+                __obskit_config_version__: 0,
+                name: "custom",
+                extra: 1,
+            })
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const settings = await config.load(mock)
+
+            await config.reset()
+            expect(settings).toEqual(TEST_DEFAULTS)
+            expect(settings.nested).not.toBe(TEST_DEFAULTS.nested)
+        })
+
+        it("requires settings to be loaded before saving", async () => {
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            await expect(config.set("name", "x")).rejects.toThrow("not been loaded")
+        })
+    })
+
+    describe("array strategies", () => {
+        interface RuleSettings {
+            [key: string]: unknown
+            rules: { id: string; enabled: boolean }[]
+        }
+
+        it("records seen defaults so removed items stay removed", async () => {
+            const mock = mockPlugin()
+            const v1 = new PluginConfig<RuleSettings>({
+                defaults: {
+                    rules: [
+                        { id: "a", enabled: true },
+                        { id: "b", enabled: true },
+                    ],
+                },
+                arrays: { rules: { mergeBy: "id" } },
+            })
+            const settings = await v1.load(mock)
+            expect(mock.savedData).toMatchObject({
+                __obskit_array_defaults__: { rules: ["a", "b"] },
+            })
+
+            // the user removes rule "b"
+            settings.rules = settings.rules.filter(rule => rule.id !== "b")
+            await v1.save(mock, settings)
+
+            // a new release adds rule "c"
+            const v2 = new PluginConfig<RuleSettings>({
+                defaults: {
+                    rules: [
+                        { id: "a", enabled: true },
+                        { id: "b", enabled: true },
+                        { id: "c", enabled: true },
+                    ],
+                },
+                arrays: { rules: { mergeBy: "id" } },
+            })
+            const upgraded = await v2.load(mock)
+            expect(upgraded.rules.map(rule => rule.id)).toEqual(["a", "c"])
+            expect("__obskit_array_defaults__" in upgraded).toBe(false)
+        })
+
+        it("keeps removed items removed through export and import", async () => {
+            const config = new PluginConfig<RuleSettings>({
+                defaults: {
+                    rules: [
+                        { id: "a", enabled: true },
+                        { id: "b", enabled: true },
+                    ],
+                },
+                arrays: { rules: { mergeBy: "id" } },
+            })
+            const settings = await config.load(mockPlugin())
+            settings.rules = settings.rules.filter(rule => rule.id !== "b")
+
+            const json = config.exportSettings(settings)
+            expect(JSON.parse(json).arrays).toEqual({ rules: ["a", "b"] })
+
+            const { settings: imported } = await config.importSettings(json)
+            expect(imported.rules.map(rule => rule.id)).toEqual(["a"])
+        })
+    })
+
+    describe("profiles", () => {
+        it("stores profile overrides relative to the shared base", async () => {
+            const mock = mockPlugin()
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const settings = await config.load(mock)
+
+            await config.createProfile("Presentation")
+            await config.switchProfile("Presentation")
+            settings.nested.color = "red"
+            await config.save(mock, settings)
+
+            expect(config.activeProfile).toBe("Presentation")
+            expect(mock.savedData).toMatchObject({
+                nested: { color: "blue" },
+                __obskit_profiles__: {
+                    active: "Presentation",
+                    profiles: { Presentation: { nested: { color: "red" } } },
+                },
+            })
+        })
+
+        it("switches settings in place", async () => {
+            const mock = mockPlugin()
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const settings = await config.load(mock)
+
+            await config.createProfile("Writing")
+            await config.switchProfile("Writing")
+            await config.set("count", 99)
+
+            await config.switchProfile(null)
+            expect(settings.count).toBe(10)
+
+            await config.switchProfile("Writing")
+            expect(settings.count).toBe(99)
+        })
+
+        it("inherits base changes not overridden by the profile", async () => {
+            const mock = mockPlugin()
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const settings = await config.load(mock)
+
+            await config.createProfile("Writing")
+            await config.set("name", "base name")
+            await config.switchProfile("Writing")
+
+            expect(settings.name).toBe("base name")
+        })
+
+        it("restores the active profile on load", async () => {
+            const mock = mockPlugin({
+                __obskit_config_version__: 0,
+                name: "base",
+                __obskit_profiles__: { active: "p", profiles: { p: { name: "profile" } } },
+            })
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const settings = await config.load(mock)
+
+            expect(settings.name).toBe("profile")
+            expect(config.profiles).toEqual(["p"])
+            expect("__obskit_profiles__" in settings).toBe(false)
+        })
+
+        it("duplicates, renames and deletes profiles", async () => {
+            const mock = mockPlugin()
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const settings = await config.load(mock)
+
+            await config.createProfile("a")
+            await config.switchProfile("a")
+            await config.set("count", 5)
+            await config.duplicateProfile("a", "b")
+            await config.renameProfile("a", "c")
+            expect(config.profiles).toEqual(["c", "b"])
+            expect(config.activeProfile).toBe("c")
+
+            await config.deleteProfile("c")
+            expect(config.activeProfile).toBeNull()
+            expect(settings.count).toBe(10)
+
+            await config.switchProfile("b")
+            expect(settings.count).toBe(5)
+        })
+    })
+
+    describe("device-local settings", () => {
+        const LOCAL_KEY = "obskit-local-settings:test"
+
+        it("stores local values outside data.json", async () => {
+            const mock = mockPlugin()
+            const config = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                local: ["count", "nested.color"],
+            })
+            await config.load(mock)
+            await config.set("count", 3)
+
+            const saved = mock.savedData!
+            expect(saved.count).toBeUndefined()
+            expect(saved.nested).toEqual({ enabled: true })
+            expect(mock.app.localStorage.get(LOCAL_KEY)).toEqual({
+                count: 3,
+                nested: { color: "blue" },
+            })
+        })
+
+        it("overlays local values on synced settings when loading", async () => {
+            const mock = mockPlugin({ __obskit_config_version__: 0, name: "synced" })
+            mock.app.saveLocalStorage(LOCAL_KEY, { count: 7 })
+
+            const config = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                local: ["count"],
+            })
+            const settings = await config.load(mock)
+
+            expect(settings.name).toBe("synced")
+            expect(settings.count).toBe(7)
+        })
+
+        it("moves previously synced values to local storage on save", async () => {
+            const mock = mockPlugin({ __obskit_config_version__: 0, count: 42 })
+            const config = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                local: ["count"],
+            })
+            const settings = await config.load(mock)
+            expect(settings.count).toBe(42)
+
+            await config.save(mock, settings)
+
+            expect(mock.savedData!.count).toBeUndefined()
+            expect(mock.app.localStorage.get(LOCAL_KEY)).toEqual({ count: 42 })
+        })
+
+        it("validates local values", async () => {
+            const mock = mockPlugin({ __obskit_config_version__: 0 })
+            mock.app.saveLocalStorage(LOCAL_KEY, { count: "many" })
+
+            const config = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                local: ["count"],
+            })
+            const settings = await config.load(mock)
+
+            expect(settings.count).toBe(10)
+            expect(config.validation.valid).toBe(false)
+        })
+
+        it("keeps local values out of profiles", async () => {
+            const mock = mockPlugin()
+            const config = new PluginConfig<TestSettings>({
+                defaults: TEST_DEFAULTS,
+                local: ["count"],
+            })
+            const settings = await config.load(mock)
+
+            await config.createProfile("p")
+            await config.switchProfile("p")
+            await config.set("count", 5)
+            await config.switchProfile(null)
+
+            expect(settings.count).toBe(5)
+            expect(mock.savedData!.__obskit_profiles__).toEqual({
+                active: null,
+                profiles: { p: {} },
+            })
+        })
+    })
+
+    describe("secrets", () => {
+        interface SecretSettings {
+            [key: string]: unknown
+            name: string
+            apiToken: string
+        }
+
+        const SECRET_DEFAULTS: SecretSettings = { name: "default", apiToken: "" }
+
+        const mocks: ReturnType<typeof mockPlugin>[] = []
+
+        afterEach(() => {
+            mocks.splice(0).forEach(mock => mock.unload())
+        })
+
+        function createPlugin(data: Record<string, unknown> | null = null) {
+            const mock = mockPlugin(data)
+            mocks.push(mock)
+            return mock
+        }
+
+        function createConfig() {
+            return new PluginConfig<SecretSettings>({
+                defaults: SECRET_DEFAULTS,
+                secrets: ["apiToken"],
+            })
+        }
+
+        it("stores secrets in secret storage instead of data.json", async () => {
+            const mock = createPlugin(null)
+            const config = createConfig()
+            await config.load(mock)
+            await config.set("apiToken", "s3cret")
+
+            expect(mock.savedData!.apiToken).toBeUndefined()
+            expect(mock.app.secretStorage.secrets.get("test-api-token")).toBe("s3cret")
+        })
+
+        it("loads secrets from secret storage", async () => {
+            const mock = createPlugin({ __obskit_config_version__: 0, name: "n" })
+            mock.app.secretStorage.secrets.set("test-api-token", "s3cret")
+
+            const settings = await createConfig().load(mock)
+
+            expect(settings.apiToken).toBe("s3cret")
+        })
+
+        it("moves plain text secrets out of data.json on save", async () => {
+            const mock = createPlugin({ __obskit_config_version__: 0, apiToken: "old" })
+            const config = createConfig()
+            const settings = await config.load(mock)
+            await config.save(mock, settings)
+
+            expect(mock.savedData!.apiToken).toBeUndefined()
+            expect(mock.app.secretStorage.secrets.get("test-api-token")).toBe("old")
+        })
+
+        it("falls back to localStorage without secret storage", async () => {
+            const mock = createPlugin(null)
+            const app: { secretStorage?: unknown } = mock.app
+            app.secretStorage = undefined
+            const config = createConfig()
+            await config.load(mock)
+            await config.set("apiToken", "s3cret")
+
+            expect(mock.savedData!.apiToken).toBeUndefined()
+            expect(mock.app.localStorage.get("obskit-secrets:test-api-token")).toBe("s3cret")
+
+            const reloaded = await createConfig().load(mock)
+            expect(reloaded.apiToken).toBe("s3cret")
+        })
+
+        it("never exports secrets and keeps them on import", async () => {
+            const mock = createPlugin(null)
+            const config = createConfig()
+            await config.load(mock)
+            await config.set("apiToken", "s3cret")
+
+            const exported = config.exportSettings()
+            expect(exported).not.toContain("s3cret")
+
+            const result = await config.importSettings(exported)
+            expect(result.settings.apiToken).toBe("s3cret")
+        })
+
+        it("redacts secrets from log output until the plugin unloads", async () => {
+            const mock = createPlugin(null)
+            const config = createConfig()
+            await config.load(mock)
+            await config.set("apiToken", "s3cret")
+
+            expect(Logger.redact({ token: "s3cret" })).toEqual({ token: "[REDACTED]" })
+
+            mock.unload()
+            expect(Logger.redact("s3cret")).toBe("s3cret")
+        })
+    })
+
+    describe("undo and redo", () => {
+        it("undoes and redoes saved changes", async () => {
+            const mock = mockPlugin()
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const settings = await config.load(mock)
+
+            settings.name = "changed"
+            await config.save(mock, settings)
+
+            expect(config.history.entries[0]?.changes).toEqual([
+                { path: "name", oldValue: "default", newValue: "changed" },
+            ])
+
+            expect(await config.undo()).toBe(true)
+            expect(settings.name).toBe("default")
+            expect(mock.savedData!.name).toBe("default")
+
+            expect(await config.redo()).toBe(true)
+            expect(settings.name).toBe("changed")
+            expect(await config.redo()).toBe(false)
+        })
+
+        it("does not record undo and redo as new changes", async () => {
+            const mock = mockPlugin()
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            await config.load(mock)
+
+            await config.set("count", 1)
+            await config.undo()
+
+            expect(config.history.canUndo).toBe(false)
+            expect(config.history.canRedo).toBe(true)
+        })
+
+        it("makes reset undoable", async () => {
+            const mock = mockPlugin({
+                __obskit_config_version__: 0,
+                name: "custom",
+                nested: { color: "red" },
+            })
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            const settings = await config.load(mock)
+
+            await config.reset()
+            expect(settings.name).toBe("default")
+
+            await config.undo()
+            expect(settings.name).toBe("custom")
+            expect(settings.nested.color).toBe("red")
+        })
+
+        it("clears the history when switching profiles", async () => {
+            const mock = mockPlugin()
+            const config = new PluginConfig<TestSettings>({ defaults: TEST_DEFAULTS })
+            await config.load(mock)
+
+            await config.set("count", 1)
+            await config.createProfile("p")
+            await config.switchProfile("p")
+
+            expect(config.history.canUndo).toBe(false)
+        })
+    })
+
+    describe("log levels", () => {
+        interface LevelSettings {
+            [key: string]: unknown
+            logLevels: Record<string, LogLevel>
+        }
+
+        const mocks: ReturnType<typeof mockPlugin>[] = []
+
+        afterEach(() => {
+            mocks.splice(0).forEach(mock => mock.unload())
+            Logger.setLogLevels({})
+        })
+
+        async function loadConfig(data: Record<string, unknown> | null = null) {
+            const mock = mockPlugin(data)
+            mocks.push(mock)
+
+            const config = new PluginConfig<LevelSettings>({
+                defaults: { logLevels: {} },
+                logLevels: "logLevels",
+            })
+            await config.load(mock)
+
+            return { mock, config }
+        }
+
+        it("applies stored overrides on load", async () => {
+            await loadConfig({
+                __obskit_config_version__: 0,
+                logLevels: { config: LogLevel.DEBUG },
+            })
+
+            expect(Logger.getLogger("config.migrations").logLevel).toBe(LogLevel.DEBUG)
+        })
+
+        it("applies overrides when the setting changes", async () => {
+            const { config } = await loadConfig()
+
+            await config.set("logLevels", { store: LogLevel.INFO })
+
+            expect(Logger.getLogLevels()).toEqual({ store: LogLevel.INFO })
+        })
+
+        it("saves overrides changed on the Logger", async () => {
+            const { mock, config } = await loadConfig()
+
+            Logger.setLogLevel("settings", LogLevel.DEBUG)
+            await config.flush()
+
+            expect(config.get("logLevels")).toEqual({ settings: LogLevel.DEBUG })
+            expect(mock.savedData!.logLevels).toEqual({ settings: LogLevel.DEBUG })
+        })
+
+        it("stops syncing when the plugin unloads", async () => {
+            const { mock, config } = await loadConfig()
+            mock.unload()
+
+            Logger.setLogLevel("settings", LogLevel.DEBUG)
+
+            expect(config.get("logLevels")).toEqual({})
+        })
+    })
 })
@@ -0,0 +1,134 @@
+/**
+ * @jest-environment jsdom
+ */
+import { describe, it, expect, afterEach, beforeEach } from "@jest/globals"
+import { PluginConfig } from "../src/config"
+import { collectDiagnostics, DiagnosticsSetting, formatDiagnostics } from "../src/diagnostics"
+import { ErrorHandler } from "../src/errors"
+import { LogLevel, MemorySink } from "../src/logger"
+import { clearNotices, createMockPlugin, findSetting, notices, simulateClick } from "../src/testing"
+
+interface Settings {
+    [key: string]: unknown
+    name: string
+    apiToken: string
+    nested: { color: string; size: number }
+}
+
+const DEFAULTS: Settings = { name: "default", apiToken: "", nested: { color: "red", size: 1 } }
+
+describe("diagnostics", () => {
+    let plugin: ReturnType<typeof createMockPlugin>
+    let config: PluginConfig<Settings>
+    let sink: MemorySink
+
+    beforeEach(async () => {
+        clearNotices()
+        plugin = createMockPlugin({
+            data: { __obskit_config_version__: 0, name: "custom", nested: { size: 3 } },
+            manifest: { id: "test", name: "Test", version: "2.1.0" },
+        })
+        plugin.app.secretStorage.secrets.set("test-api-token", "s3cret")
+
+        config = new PluginConfig<Settings>({
+            defaults: DEFAULTS,
+            secrets: ["apiToken"],
+            migrations: [{ id: "add-nested", migrate: () => {} }],
+        })
+        await config.load(plugin)
+
+        sink = new MemorySink()
+        for (const message of ["one", "two", "token is s3cret"]) {
+            sink.write({
+                level: LogLevel.INFO,
+                logger: "main",
+                message,
+                args: [],
+                context: {},
+                timestamp: 0,
+            })
+        }
+    })
+
+    afterEach(() => {
+        plugin.unload()
+    })
+
+    it("collects plugin, app and settings details", () => {
+        const report = collectDiagnostics({ plugin, config })
+
+        expect(report.plugin).toEqual({ id: "test", name: "Test", version: "2.1.0" })
+        expect(report.app.platform).toBe("Linux desktop")
+        expect(report.settings).toMatchObject({
+            version: 0,
+            migrations: ["add-nested"],
+            profile: null,
+            readOnly: false,
+        })
+        expect(report.settings!.values).toEqual([
+            { path: "name", value: "custom", changed: true },
+            { path: "apiToken", value: "[REDACTED]", changed: true },
+            { path: "nested.color", value: "red", changed: false },
+            { path: "nested.size", value: 3, changed: true },
+        ])
+    })
+
+    it("includes recent logs with secrets removed", () => {
+        const report = collectDiagnostics({ plugin, config, sink, logLimit: 2 })
+
+        expect(report.logs.map(r => r.message)).toEqual(["two", "token is [REDACTED]"])
+    })
+
+    it("includes errors from the installed handler", () => {
+        const handler = new ErrorHandler({ notify: false })
+        handler.install(plugin)
+        handler.handle(new Error("boom"), "Command: Sync", 1000)
+        handler.handle(new Error("boom"), "Command: Sync", 2000)
+
+        const report = collectDiagnostics({ plugin })
+
+        expect(report.settings).toBeNull()
+        expect(report.errors).toEqual([{ context: "Command: Sync", message: "boom", count: 2 }])
+        expect(formatDiagnostics(report)).toContain("- Command: Sync: boom (×2)")
+    })
+
+    it("renders Markdown with changed values in bold", () => {
+        const markdown = formatDiagnostics(collectDiagnostics({ plugin, config, sink }))
+
+        expect(markdown).toContain("# Test diagnostics")
+        expect(markdown).toContain("| Plugin | Test (test) 2.1.0 |")
+        expect(markdown).toContain("- Version: 0 (applied migrations: add-nested)")
+        expect(markdown).toContain('- **`name`: `"custom"`**')
+        expect(markdown).toContain('- `nested.color`: `"red"`')
+        expect(markdown).toContain("1970-01-01T00:00:00.000Z [INFO] main -- one")
+        expect(markdown).not.toContain("s3cret")
+    })
+
+    it("copies the report from the setting component", async () => {
+        let copied = ""
+        Object.defineProperty(navigator, "clipboard", {
+            value: { writeText: async (text: string) => void (copied = text) },
+            configurable: true,
+        })
+
+        const containerEl = document.createElement("div")
+        new DiagnosticsSetting({ plugin, config }).display(containerEl)
+        await simulateClick(findSetting(containerEl, "Diagnostics"), "Copy")
+
+        expect(copied).toContain("# Test diagnostics")
+        expect(notices.map(n => n.message)).toEqual(["Diagnostics copied to clipboard"])
+    })
+
+    it("saves the report as a note", async () => {
+        const containerEl = document.createElement("div")
+        new DiagnosticsSetting({ plugin, config, folder: "Bugs" }).display(containerEl)
+        await simulateClick(findSetting(containerEl, "Diagnostics"), "Create note")
+
+        const files = [...plugin.app.vault.adapter.files.keys()]
+        const note = files.find(path => path.startsWith("Bugs/test diagnostics "))
+
+        expect(note).toMatch(/\.md$/)
+        expect(plugin.app.vault.adapter.files.get(note!)).toContain("## Settings")
+        expect(notices[0]!.message).toBe(`Diagnostics saved to ${note}`)
+    })
+})
@@ -0,0 +1,151 @@
+/**
+ * @jest-environment jsdom
+ */
+import { describe, it, expect, afterEach, beforeEach } from "@jest/globals"
+import { ErrorHandler } from "../src/errors"
+import { LogLevel } from "../src/logger"
+import { ToggleSetting } from "../src/settings"
+import {
+    CaptureSink,
+    clearNotices,
+    createMockPlugin,
+    findSetting,
+    notices,
+    simulateToggle,
+} from "../src/testing"
+
+class FailingSetting extends ToggleSetting {
+    constructor() {
+        super({ name: "Sync", description: "Sync with the server." })
+    }
+
+    get value(): boolean {
+        return false
+    }
+
+    set value(_val: boolean) {
+        throw new Error("server unavailable")
+    }
+
+    get default(): boolean {
+        return false
+    }
+}
+
+describe("ErrorHandler", () => {
+    let logs: CaptureSink
+    let plugin: ReturnType<typeof createMockPlugin>
+    let handler: ErrorHandler
+
+    beforeEach(() => {
+        logs = new CaptureSink().attach(LogLevel.ERROR)
+        clearNotices()
+        plugin = createMockPlugin()
+        handler = new ErrorHandler()
+        handler.install(plugin)
+    })
+
+    afterEach(() => {
+        plugin.unload()
+        logs.detach()
+    })
+
+    it("logs errors with their stack and shows a notice", () => {
+        const error = new Error("boom")
+        handler.handle(error, "Command: Sync")
+
+        expect(logs.records[0]).toMatchObject({
+            logger: "errors",
+            message: "Error in Command: Sync",
+            args: [error],
+        })
+        expect(notices.map(n => n.message)).toEqual(["Command: Sync: boomCopy details"])
+    })
+
+    it("copies error details from the notice", async () => {
+        let copied = ""
+        Object.defineProperty(navigator, "clipboard", {
+            value: { writeText: async (text: string) => void (copied = text) },
+            configurable: true,
+        })
+
+        handler.handle(new Error("boom"), "Command: Sync")
+        notices[0]!.noticeEl.querySelector("button")!.click()
+        await new Promise(resolve => setTimeout(resolve, 0))
+
+        expect(copied).toMatch(/^Error in Command: Sync\nError: boom\n\s+at /)
+        expect(notices.map(n => n.message)).toContain("Error details copied")
+    })
+
+    it("counts repeats within the dedupe window", () => {
+        handler.handle(new Error("boom"), "render", 1000)
+        handler.handle(new Error("boom"), "render", 2000)
+        handler.handle(new Error("other"), "render", 2500)
+        handler.handle(new Error("boom"), "render", 30000)
+
+        expect(logs.records).toHaveLength(3)
+        expect(notices).toHaveLength(3)
+        expect(handler.errors.map(e => [e.context, e.count])).toEqual([
+            ["render", 3],
+            ["render", 1],
+        ])
+    })
+
+    it("does not show notices when disabled", () => {
+        new ErrorHandler({ notify: false }).handle(new Error("quiet"))
+
+        expect(logs.messages()).toEqual(["Unhandled error"])
+        expect(notices).toHaveLength(0)
+    })
+
+    it("wraps synchronous and asynchronous callbacks", async () => {
+        const sync = handler.wrap((value: number) => {
+            if (value < 0) throw new Error("negative")
+            return value * 2
+        }, "double")
+        const async = handler.wrap(async () => {
+            throw new Error("rejected")
+        }, "load")
+
+        expect(sync(2)).toBe(4)
+        expect(sync(-1)).toBeUndefined()
+        await expect(async()).resolves.toBeUndefined()
+
+        expect(logs.messages()).toEqual(["Error in double", "Error in load"])
+    })
+
+    it("wraps command callbacks", () => {
+        const command = handler.wrapCommand({
+            id: "sync",
+            name: "Sync",
+            checkCallback: () => {
+                throw new Error("offline")
+            },
+        })
+
+        expect(command.checkCallback?.(true)).toBe(false)
+        expect(logs.messages()).toEqual(["Error in Command: Sync"])
+    })
+
+    it("reports setting errors through the installed handler", async () => {
+        const containerEl = document.createElement("div")
+        new FailingSetting().display(containerEl)
+
+        await simulateToggle(findSetting(containerEl, "Sync"), true)
+
+        expect(logs.messages()).toEqual(["Error in Setting: Sync"])
+        expect(handler.errors[0]!.error).toEqual(new Error("server unavailable"))
+    })
+
+    it("is uninstalled when the plugin unloads", () => {
+        expect(ErrorHandler.installed).toBe(handler)
+
+        plugin.unload()
+        ErrorHandler.report(new Error("late"), "timer")
+
+        expect(ErrorHandler.installed).toBeNull()
+        expect(handler.errors).toHaveLength(0)
+        expect(logs.messages()).toEqual(["Error in timer"])
+        expect(notices).toHaveLength(0)
+    })
+})
@@ -0,0 +1,222 @@
+/**
+ * @jest-environment jsdom
+ */
+import { describe, it, expect, afterEach, beforeEach, jest } from "@jest/globals"
+import { PluginConfig } from "../src/config"
+import { bindLogFile, defaultLogPath, FileSink, LogFileSetting } from "../src/filesink"
+import { Logger, LogLevel, LogRecord } from "../src/logger"
+import { createMockPlugin, findSetting, simulateText, simulateToggle } from "../src/testing"
+
+function record(message: string, level: LogLevel = LogLevel.INFO): LogRecord {
+    return { level, logger: "main", message, args: [], context: {}, timestamp: 0 }
+}
+
+// let fire-and-forget writes finish
+function settle(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+describe("FileSink", () => {
+    let adapter: ReturnType<typeof createMockPlugin>["app"]["vault"]["adapter"]
+
+    beforeEach(() => {
+        adapter = createMockPlugin().app.vault.adapter
+    })
+
+    afterEach(() => {
+        jest.useRealTimers()
+    })
+
+    it("appends formatted records on flush", async () => {
+        const sink = new FileSink(adapter, { path: "logs/debug.log", formatter: r => r.message })
+        sink.write(record("one"))
+        sink.write(record("two"))
+
+        expect(adapter.files.size).toBe(0)
+
+        await sink.flush()
+        sink.write(record("three"))
+        await sink.flush()
+
+        expect(adapter.files.get("logs/debug.log")).toBe("one\ntwo\nthree\n")
+    })
+
+    it("writes batches after the flush delay", async () => {
+        jest.useFakeTimers()
+        const sink = new FileSink(adapter, { path: "debug.log", flushDelay: 100 })
+        const write = jest.spyOn(adapter, "write")
+
+        sink.write(record("one"))
+        sink.write(record("two"))
+        await jest.advanceTimersByTimeAsync(100)
+
+        expect(write).toHaveBeenCalledTimes(1)
+        expect(adapter.files.get("debug.log")).toContain("[INFO] main -- two")
+    })
+
+    it("rotates files past the size limit", async () => {
+        const sink = new FileSink(adapter, {
+            path: "debug.log",
+            formatter: r => r.message,
+            maxSize: 8,
+            maxFiles: 2,
+        })
+
+        for (const message of ["aaaaa", "bbbbb", "ccccc", "ddddd"]) {
+            sink.write(record(message))
+            await sink.flush()
+        }
+
+        expect(adapter.files.get("debug.log")).toBe("ddddd\n")
+        expect(adapter.files.get("debug.log.1")).toBe("ccccc\n")
+        expect(adapter.files.get("debug.log.2")).toBe("bbbbb\n")
+        expect(adapter.files.has("debug.log.3")).toBe(false)
+    })
+
+    it("measures the size limit in bytes", async () => {
+        const sink = new FileSink(adapter, {
+            path: "debug.log",
+            formatter: r => r.message,
+            maxSize: 12,
+        })
+
+        // with the newline: seven UTF-16 code units, but eleven bytes
+        sink.write(record("äöü😀"))
+        await sink.flush()
+        sink.write(record("ok"))
+        await sink.flush()
+
+        expect(adapter.files.get("debug.log")).toBe("ok\n")
+        expect(adapter.files.get("debug.log.1")).toBe("äöü😀\n")
+    })
+
+    it("keeps no rotated files when maxFiles is zero", async () => {
+        const sink = new FileSink(adapter, {
+            path: "debug.log",
+            formatter: r => r.message,
+            maxSize: 4,
+            maxFiles: 0,
+        })
+
+        sink.write(record("one"))
+        await sink.flush()
+        sink.write(record("two"))
+        await sink.flush()
+
+        expect([...adapter.files.keys()]).toEqual(["debug.log"])
+        expect(adapter.files.get("debug.log")).toBe("two\n")
+    })
+
+    it("reports write failures to the console", async () => {
+        jest.spyOn(adapter, "write").mockRejectedValue(new Error("read-only"))
+        const error = jest.spyOn(console, "error").mockImplementation(() => {})
+
+        const sink = new FileSink(adapter, { path: "debug.log" })
+        sink.write(record("lost"))
+        await sink.flush()
+        const calls = error.mock.calls.length
+        error.mockRestore()
+
+        expect(calls).toBe(1)
+    })
+})
+
+describe("log file setting", () => {
+    interface Settings {
+        [key: string]: unknown
+        logFile: { enabled: boolean; path: string }
+    }
+
+    let previousLevel: LogLevel
+
+    beforeEach(() => {
+        previousLevel = Logger.getGlobalLogLevel()
+        Logger.setGlobalLogLevel(LogLevel.INFO)
+    })
+
+    afterEach(() => {
+        Logger.setGlobalLogLevel(previousLevel)
+    })
+
+    // type one character at a time, then leave the field
+    async function typePath(containerEl: HTMLElement, path: string): Promise<void> {
+        const setting = findSetting(containerEl, "Log file")
+
+        for (let i = 1; i <= path.length; i++) {
+            await simulateText(setting, path.slice(0, i))
+        }
+
+        setting.controlEl.querySelector("input")!.dispatchEvent(new Event("change"))
+        await settle()
+    }
+
+    async function setup() {
+        const plugin = createMockPlugin({
+            manifest: { id: "test", dir: ".obsidian/plugins/test" },
+        })
+        const config = new PluginConfig<Settings>({
+            defaults: { logFile: { enabled: false, path: "" } },
+        })
+        await config.load(plugin)
+        bindLogFile(plugin, config, "logFile")
+
+        return { plugin, config, files: plugin.app.vault.adapter.files }
+    }
+
+    it("defaults to a file in the plugin folder", () => {
+        const plugin = createMockPlugin({ manifest: { id: "test", dir: "plugins/test" } })
+        expect(defaultLogPath(plugin)).toBe("plugins/test/debug.log")
+    })
+
+    it("writes to the log file only while enabled", async () => {
+        const { plugin, config, files } = await setup()
+        const logger = Logger.getLogger("filesink")
+
+        logger.info("before")
+        await config.set("logFile", { enabled: true, path: "" })
+        logger.info("during")
+        await config.set("logFile.enabled", false)
+        logger.info("after")
+        plugin.unload()
+        await settle()
+
+        const content = files.get(".obsidian/plugins/test/debug.log") ?? ""
+        expect(content).toContain("during")
+        expect(content).not.toContain("before")
+        expect(content).not.toContain("after")
+    })
+
+    it("updates the config from the setting component", async () => {
+        const { plugin, config, files } = await setup()
+        const containerEl = document.createElement("div")
+        new LogFileSetting({ plugin, config, path: "logFile" }).display(containerEl)
+
+        await typePath(containerEl, "logs/custom.log")
+        await simulateToggle(findSetting(containerEl, "Log file"), true)
+        expect(config.get("logFile")).toEqual({ enabled: true, path: "logs/custom.log" })
+
+        Logger.getLogger("filesink").info("custom")
+        plugin.unload()
+        await settle()
+
+        expect(files.get("logs/custom.log")).toContain("custom")
+    })
+
+    it("only applies the path when editing is done", async () => {
+        const { plugin, config, files } = await setup()
+        Logger.setGlobalLogLevel(LogLevel.DEBUG)
+        await config.set("logFile.enabled", true)
+
+        const containerEl = document.createElement("div")
+        new LogFileSetting({ plugin, config, path: "logFile" }).display(containerEl)
+        await typePath(containerEl, "logs/my.log")
+
+        Logger.getLogger("filesink").info("typed")
+        plugin.unload()
+        await settle()
+
+        const created = [...files.keys()].filter(path => !path.startsWith(".obsidian/"))
+        expect(created).toEqual(["logs/my.log"])
+        expect(files.get("logs/my.log")).toContain("typed")
+    })
+})
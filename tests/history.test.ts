@@ -0,0 +1,81 @@
+import { describe, it, expect } from "@jest/globals"
+import { SettingsHistory } from "../src/history"
+
+function change(path: string, oldValue: unknown, newValue: unknown) {
+    return { path, oldValue, newValue }
+}
+
+describe("SettingsHistory", () => {
+    it("undoes and redoes entries in order", () => {
+        const history = new SettingsHistory()
+        history.record([change("a", 1, 2)], 0)
+        history.record([change("b", 1, 2)], 5000)
+
+        expect(history.undo()?.changes[0]?.path).toBe("b")
+        expect(history.canRedo).toBe(true)
+        expect(history.redo()?.changes[0]?.path).toBe("b")
+        expect(history.canRedo).toBe(false)
+    })
+
+    it("returns null when there is nothing to undo or redo", () => {
+        const history = new SettingsHistory()
+        expect(history.undo()).toBeNull()
+        expect(history.redo()).toBeNull()
+    })
+
+    it("discards redo entries when new changes are recorded", () => {
+        const history = new SettingsHistory()
+        history.record([change("a", 1, 2)], 0)
+        history.undo()
+        history.record([change("b", 1, 2)], 5000)
+
+        expect(history.canRedo).toBe(false)
+    })
+
+    it("keeps at most the configured number of entries", () => {
+        const history = new SettingsHistory({ limit: 2 })
+        history.record([change("a", 1, 2)], 0)
+        history.record([change("b", 1, 2)], 5000)
+        history.record([change("c", 1, 2)], 10000)
+
+        expect(history.entries.map(entry => entry.changes[0]?.path)).toEqual(["c", "b"])
+    })
+
+    it("merges repeated changes to the same paths", () => {
+        const history = new SettingsHistory()
+        history.record([change("size", 10, 11)], 0)
+        history.record([change("size", 11, 12)], 500)
+        history.record([change("size", 12, 13)], 1000)
+
+        expect(history.entries).toEqual([{ timestamp: 1000, changes: [change("size", 10, 13)] }])
+    })
+
+    it("drops merged entries that cancel out", () => {
+        const history = new SettingsHistory()
+        history.record([change("size", 10, 11)], 0)
+        history.record([change("size", 11, 10)], 500)
+
+        expect(history.canUndo).toBe(false)
+    })
+
+    it("does not merge changes outside the merge window", () => {
+        const history = new SettingsHistory({ mergeWindow: 100 })
+        history.record([change("size", 10, 11)], 0)
+        history.record([change("size", 11, 12)], 500)
+
+        expect(history.entries).toHaveLength(2)
+    })
+
+    it("notifies listeners of changes", () => {
+        const history = new SettingsHistory()
+        let calls = 0
+        const unsubscribe = history.onChange(() => calls++)
+
+        history.record([change("a", 1, 2)])
+        history.undo()
+        unsubscribe()
+        history.redo()
+
+        expect(calls).toBe(2)
+    })
+})
@@ -0,0 +1,485 @@
+import { describe, it, expect, afterEach, beforeEach, jest } from "@jest/globals"
+import {
+    ConsoleSink,
+    formatJson,
+    formatText,
+    Logger,
+    LogLevel,
+    LogRecord,
+    MemorySink,
+    serializeError,
+} from "../src/logger"
+import { CaptureSink } from "../src/testing"
+
+describe("Logger.redact", () => {
+    let remove: (() => void) | null = null
+
+    afterEach(() => {
+        remove?.()
+        remove = null
+    })
+
+    it("returns values unchanged when nothing is registered", () => {
+        const value = { token: "abc" }
+        expect(Logger.redact(value)).toBe(value)
+    })
+
+    it("replaces secrets in strings, objects and arrays", () => {
+        remove = Logger.addRedactor(() => ["abc"])
+
+        expect(Logger.redact("token=abc&x=abcabc")).toBe("token=[REDACTED]&x=[REDACTED][REDACTED]")
+        expect(Logger.redact({ a: ["abc", 1], b: { c: "xabc" } })).toEqual({
+            a: ["[REDACTED]", 1],
+            b: { c: "x[REDACTED]" },
+        })
+    })
+
+    it("does not modify the original value", () => {
+        remove = Logger.addRedactor(() => ["abc"])
+
+        const value = { token: "abc" }
+        Logger.redact(value)
+
+        expect(value.token).toBe("abc")
+    })
+
+    it("redacts error messages", () => {
+        remove = Logger.addRedactor(() => ["abc"])
+
+        const error = Logger.redact(new Error("bad token abc"))
+
+        expect(error).toBeInstanceOf(Error)
+        expect(error.message).toBe("bad token [REDACTED]")
+    })
+
+    it("keeps error subclasses and their fields", () => {
+        remove = Logger.addRedactor(() => ["abc"])
+
+        class RequestError extends Error {
+            constructor(
+                message: string,
+                public url: string
+            ) {
+                super(message)
+                this.name = "RequestError"
+            }
+        }
+
+        const error = Logger.redact(new RequestError("failed abc", "https://x/?key=abc"))
+
+        expect(error).toBeInstanceOf(RequestError)
+        expect(error.name).toBe("RequestError")
+        expect(error.message).toBe("failed [REDACTED]")
+        expect(error.url).toBe("https://x/?key=[REDACTED]")
+    })
+
+    it("leaves class instances, maps and sets untouched", () => {
+        remove = Logger.addRedactor(() => ["abc"])
+
+        class File {
+            path = "abc.md"
+        }
+        const value = { file: new File(), map: new Map([["a", 1]]), set: new Set(["abc"]) }
+        const result = Logger.redact(value)
+
+        expect(result.file).toBe(value.file)
+        expect(result.map).toBe(value.map)
+        expect(result.set).toBe(value.set)
+    })
+
+    it("handles circular references", () => {
+        remove = Logger.addRedactor(() => ["abc"])
+
+        const folder: Record<string, unknown> = { name: "abc", children: [] }
+        const file = { name: "note", parent: folder }
+        ;(folder.children as unknown[]).push(file)
+
+        const result = Logger.redact(folder)
+
+        expect(result.name).toBe("[REDACTED]")
+        expect((result.children as { parent: unknown }[])[0]!.parent).toBe(result)
+    })
+
+    it("ignores empty secrets and reads the current values", () => {
+        let secrets = [""]
+        remove = Logger.addRedactor(() => secrets)
+
+        expect(Logger.redact("abc")).toBe("abc")
+
+        secrets = ["abc"]
+        expect(Logger.redact("abc")).toBe("[REDACTED]")
+    })
+})
+
+describe("log sinks", () => {
+    let logs: CaptureSink
+
+    beforeEach(() => {
+        logs = new CaptureSink().attach(LogLevel.DEBUG)
+    })
+
+    afterEach(() => {
+        logs.detach()
+    })
+
+    it("delivers structured records to sinks", () => {
+        const before = Date.now()
+        Logger.getLogger("sinks").warn("careful", { a: 1 })
+
+        expect(logs.records).toHaveLength(1)
+        expect(logs.records[0]).toMatchObject({
+            level: LogLevel.WARN,
+            logger: "sinks",
+            message: "careful",
+            args: [{ a: 1 }],
+        })
+        expect(logs.records[0]!.timestamp).toBeGreaterThanOrEqual(before)
+    })
+
+    it("filters records by each sink's level", () => {
+        const errors = new MemorySink(10, LogLevel.ERROR)
+        const remove = Logger.addSink(errors)
+
+        const logger = Logger.getLogger("sinks")
+        logger.info("hello")
+        logger.error("oops")
+        remove()
+
+        expect(errors.records.map(r => r.message)).toEqual(["oops"])
+        expect(logs.messages()).toEqual(["hello", "oops"])
+    })
+
+    it("still applies the logger's level", () => {
+        Logger.setGlobalLogLevel(LogLevel.WARN)
+        Logger.getLogger("sinks").info("ignored")
+
+        expect(logs.records).toHaveLength(0)
+    })
+
+    it("keeps only the most recent records in a memory sink", () => {
+        const memory = new MemorySink(2)
+        const remove = Logger.addSink(memory)
+
+        const logger = Logger.getLogger("sinks")
+        logger.info("one")
+        logger.info("two")
+        logger.info("three")
+        remove()
+
+        expect(memory.records.map(r => r.message)).toEqual(["two", "three"])
+    })
+
+    it("keeps logging when a sink fails", () => {
+        const failing = {
+            write: () => {
+                throw new Error("broken")
+            },
+        }
+        const remove = Logger.addSink(failing)
+        const error = jest.spyOn(console, "error").mockImplementation(() => {})
+
+        Logger.getLogger("sinks").info("survives")
+        remove()
+        error.mockRestore()
+
+        expect(logs.messages()).toEqual(["survives"])
+    })
+
+    it("redacts records before they reach sinks", () => {
+        const remove = Logger.addRedactor(() => ["abc"])
+
+        Logger.getLogger("sinks").info("token abc", "abc")
+        remove()
+
+        expect(logs.records[0]).toMatchObject({ message: "token [REDACTED]", args: ["[REDACTED]"] })
+    })
+
+    it("logs circular objects while secrets are registered", () => {
+        const remove = Logger.addRedactor(() => ["abc"])
+        const file: Record<string, unknown> = { path: "abc.md" }
+        file.vault = { root: file }
+
+        expect(() => Logger.getLogger("sinks").info("opened", file)).not.toThrow()
+        remove()
+
+        expect(logs.records[0]!.args[0]).toMatchObject({ path: "[REDACTED].md" })
+    })
+
+    it("can remove the console sink", () => {
+        const [consoleSink] = Logger.getSinks()
+        expect(consoleSink).toBeInstanceOf(ConsoleSink)
+
+        Logger.removeSink(consoleSink!)
+        expect(Logger.getSinks()).not.toContain(consoleSink)
+
+        Logger.addSink(consoleSink!)
+    })
+})
+
+describe("logger hierarchy", () => {
+    let logs: CaptureSink
+
+    beforeEach(() => {
+        logs = new CaptureSink().attach(LogLevel.WARN)
+    })
+
+    afterEach(() => {
+        Logger.setLogLevels({})
+        logs.detach()
+    })
+
+    it("creates child loggers with dotted names", () => {
+        const parent = Logger.getLogger("tree")
+        const child = parent.getChild("branch")
+
+        expect(child.name).toBe("tree.branch")
+        expect(Logger.getLogger("branch", parent)).toBe(child)
+        expect(Logger.getLogger("tree.branch")).toBe(child)
+    })
+
+    it("applies overrides to a logger and its descendants", () => {
+        Logger.setLogLevel("tree", LogLevel.DEBUG)
+
+        Logger.getLogger("tree").debug("parent")
+        Logger.getLogger("tree.branch.leaf").debug("descendant")
+        Logger.getLogger("treehouse").debug("sibling")
+        Logger.getLogger("other").debug("unrelated")
+
+        expect(logs.messages()).toEqual(["parent", "descendant"])
+    })
+
+    it("prefers the most specific override", () => {
+        Logger.setLogLevel("tree", LogLevel.DEBUG)
+        Logger.setLogLevel("tree.branch", LogLevel.ERROR)
+
+        expect(Logger.getLogger("tree").logLevel).toBe(LogLevel.DEBUG)
+        expect(Logger.getLogger("tree.branch.leaf").logLevel).toBe(LogLevel.ERROR)
+    })
+
+    it("keeps overrides when the global level changes", () => {
+        const logger = Logger.getLogger("tree")
+        Logger.setLogLevel("tree", LogLevel.DEBUG)
+
+        Logger.setGlobalLogLevel(LogLevel.SILENT)
+
+        expect(logger.logLevel).toBe(LogLevel.DEBUG)
+        expect(Logger.getLogger("other").logLevel).toBe(LogLevel.SILENT)
+    })
+
+    it("inherits again after an override is cleared", () => {
+        Logger.setLogLevel("tree", LogLevel.DEBUG)
+        Logger.clearLogLevel("tree")
+
+        expect(Logger.getLogger("tree.branch").logLevel).toBe(LogLevel.WARN)
+        expect(Logger.getLogLevels()).toEqual({})
+    })
+
+    it("replaces all overrides, ignoring unknown levels", () => {
+        Logger.setLogLevel("old", LogLevel.DEBUG)
+
+        Logger.setLogLevels({ tree: LogLevel.INFO, bad: 42 as LogLevel })
+
+        expect(Logger.getLogLevels()).toEqual({ tree: LogLevel.INFO })
+    })
+
+    it("notifies listeners only when overrides change", () => {
+        const listener = jest.fn()
+        const remove = Logger.onLogLevelsChange(listener)
+
+        Logger.setLogLevel("tree", LogLevel.DEBUG)
+        Logger.setLogLevel("tree", LogLevel.DEBUG)
+        Logger.setLogLevels({ tree: LogLevel.DEBUG })
+        Logger.clearLogLevel("missing")
+        remove()
+        Logger.clearLogLevel("tree")
+
+        expect(listener).toHaveBeenCalledTimes(1)
+    })
+})
+
+describe("structured logging", () => {
+    let logs: CaptureSink
+
+    const record = (overrides: Partial<LogRecord> = {}): LogRecord => ({
+        level: LogLevel.INFO,
+        logger: "main",
+        message: "hello",
+        args: [],
+        context: {},
+        timestamp: Date.UTC(2024, 0, 2, 3, 4, 5, 6),
+        ...overrides,
+    })
+
+    beforeEach(() => {
+        logs = new CaptureSink().attach(LogLevel.DEBUG)
+    })
+
+    afterEach(() => {
+        logs.detach()
+    })
+
+    it("adds bound context to records", () => {
+        const logger = Logger.getLogger("structured").with({ file: "a.md" })
+        logger.with({ line: 3 }).info("parsed")
+        logger.info("done")
+
+        expect(logs.records.map(r => r.context)).toEqual([
+            { file: "a.md", line: 3 },
+            { file: "a.md" },
+        ])
+        expect(Logger.getLogger("structured").context).toEqual({})
+    })
+
+    it("keeps context for child loggers", () => {
+        const child = Logger.getLogger("structured").with({ run: 1 }).getChild("step")
+        child.info("go")
+
+        expect(logs.records[0]).toMatchObject({ logger: "structured.step", context: { run: 1 } })
+    })
+
+    it("redacts context values", () => {
+        const remove = Logger.addRedactor(() => ["abc"])
+        Logger.getLogger("structured").with({ token: "abc" }).info("call")
+        remove()
+
+        expect(logs.records[0]!.context).toEqual({ token: "[REDACTED]" })
+    })
+
+    it("formats records as text with ISO timestamps", () => {
+        const text = formatText(record({ context: { file: "a.md" }, args: ["x", { n: 1 }] }))
+
+        expect(text).toBe('2024-01-02T03:04:05.006Z [INFO] main -- hello file=a.md x {"n":1}')
+    })
+
+    it("formats records as JSON lines", () => {
+        const line = formatJson(record({ level: LogLevel.WARN, context: { id: 7 }, args: [1] }))
+
+        expect(JSON.parse(line)).toEqual({
+            time: "2024-01-02T03:04:05.006Z",
+            level: "WARN",
+            logger: "main",
+            message: "hello",
+            context: { id: 7 },
+            args: [1],
+        })
+        expect(line).not.toContain("\n")
+    })
+
+    it("serializes errors with their stack and cause", () => {
+        const cause = new Error("disk full")
+        const error = Object.assign(new Error("save failed"), { cause })
+
+        const serialized = serializeError(error)
+        expect(serialized).toMatchObject({
+            name: "Error",
+            message: "save failed",
+            cause: { name: "Error", message: "disk full" },
+        })
+        expect(serialized.stack).toContain("save failed")
+
+        const json = JSON.parse(formatJson(record({ args: [error] })))
+        expect(json.args[0].cause.message).toBe("disk full")
+
+        expect(formatText(record({ args: [error] }))).toContain("Caused by: Error: disk full")
+    })
+
+    it("survives circular arguments", () => {
+        const loop: Record<string, unknown> = {}
+        loop.self = loop
+
+        expect(() => formatJson(record({ args: [loop] }))).not.toThrow()
+        expect(() => formatText(record({ args: [loop] }))).not.toThrow()
+    })
+
+    it("writes formatted lines to the console", () => {
+        const log = jest.spyOn(console, "log").mockImplementation(() => {})
+
+        new ConsoleSink(undefined, formatJson).write(record())
+        new ConsoleSink().write(record({ args: [{ n: 1 }] }))
+        const calls = [...log.mock.calls]
+        log.mockRestore()
+
+        expect(JSON.parse(calls[0]![0] as string)).toMatchObject({ message: "hello" })
+        expect(calls[1]).toEqual(["2024-01-02T03:04:05.006Z [INFO] main -- hello", { n: 1 }])
+    })
+})
+
+describe("timing", () => {
+    let logs: CaptureSink
+    let now: number
+
+    beforeEach(() => {
+        logs = new CaptureSink().attach(LogLevel.DEBUG)
+        now = 0
+        jest.spyOn(performance, "now").mockImplementation(() => now)
+    })
+
+    afterEach(() => {
+        Logger.getLogger("timing").resetTimings()
+        jest.restoreAllMocks()
+        logs.detach()
+    })
+
+    it("logs the time between time() and timeEnd() at DEBUG", () => {
+        const logger = Logger.getLogger("timing")
+
+        logger.time("scan")
+        now = 12.34
+        const duration = logger.timeEnd("scan")
+
+        expect(duration).toBe(12.34)
+        expect(logs.records[0]).toMatchObject({
+            level: LogLevel.DEBUG,
+            message: "scan took 12.3ms",
+        })
+        expect(logger.timeEnd("scan")).toBeUndefined()
+    })
+
+    it("times spans, including failures", async () => {
+        const logger = Logger.getLogger("timing")
+
+        const result = await logger.span("render", async () => {
+            now += 5
+            return "done"
+        })
+        expect(result).toBe("done")
+
+        const failure = new Error("boom")
+        await expect(
+            logger.span("render", () => {
+                now += 15
+                throw failure
+            })
+        ).rejects.toBe(failure)
+
+        expect(logs.messages()).toEqual(["render took 5.0ms", "render failed after 15.0ms"])
+        expect(logs.records[1]!.args).toEqual([failure])
+        expect(logger.getTimings()).toEqual({
+            render: { count: 2, failures: 1, total: 20, min: 5, max: 15, avg: 10 },
+        })
+    })
+
+    it("shares statistics with bound loggers and dumps them on demand", async () => {
+        const logger = Logger.getLogger("timing")
+
+        await logger.with({ file: "a.md" }).span("parse", () => {
+            now += 2
+        })
+        logs.clear()
+        logger.dumpTimings()
+
+        expect(logs.messages()).toEqual(["parse: count=1 failures=0 min=2.0ms avg=2.0ms max=2.0ms"])
+    })
+
+    it("does nothing when DEBUG is not shown", async () => {
+        Logger.setGlobalLogLevel(LogLevel.INFO)
+        const logger = Logger.getLogger("timing")
+
+        logger.time("scan")
+        expect(logger.timeEnd("scan")).toBeUndefined()
+        expect(await logger.span("render", () => 42)).toBe(42)
+
+        expect(logs.records).toHaveLength(0)
+        expect(logger.getTimings()).toEqual({})
+    })
+})
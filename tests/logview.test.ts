@@ -0,0 +1,170 @@
+/**
+ * @jest-environment jsdom
+ */
+import { describe, it, expect, afterEach, beforeEach } from "@jest/globals"
+import { App } from "obsidian"
+import { LogLevel, LogRecord, MemorySink } from "../src/logger"
+import {
+    addShowLogsCommand,
+    filterLogRecords,
+    formatLogReport,
+    LogView,
+    LogViewModal,
+} from "../src/logview"
+import {
+    clearNotices,
+    createMockPlugin,
+    findSetting,
+    notices,
+    openModals,
+    simulateClick,
+    simulateDropdown,
+    simulateText,
+    simulateToggle,
+} from "../src/testing"
+
+function record(level: LogLevel, logger: string, message: string): LogRecord {
+    return { level, logger, message, args: [], context: {}, timestamp: 0 }
+}
+
+function createSink(): MemorySink {
+    const sink = new MemorySink()
+    sink.write(record(LogLevel.DEBUG, "config", "loaded"))
+    sink.write(record(LogLevel.WARN, "config.migrations", "slow migration"))
+    sink.write(record(LogLevel.ERROR, "settings", "render failed"))
+    return sink
+}
+
+function messages(viewEl: HTMLElement): string[] {
+    return Array.from(viewEl.querySelectorAll(".obskit-log-entry")).map(el => {
+        const text = el.textContent ?? ""
+        return text.slice(text.indexOf(" -- ") + 4)
+    })
+}
+
+describe("filterLogRecords", () => {
+    const records = createSink().records
+
+    it("filters by minimum severity", () => {
+        const filtered = filterLogRecords(records, { level: LogLevel.WARN })
+        expect(filtered.map(r => r.message)).toEqual(["slow migration", "render failed"])
+    })
+
+    it("filters by logger subtree", () => {
+        const filtered = filterLogRecords(records, { logger: "config" })
+        expect(filtered.map(r => r.message)).toEqual(["loaded", "slow migration"])
+    })
+
+    it("searches the formatted text", () => {
+        expect(filterLogRecords(records, { search: "RENDER" })).toHaveLength(1)
+        expect(filterLogRecords(records, { search: "[warn]" })).toHaveLength(1)
+    })
+})
+
+describe("formatLogReport", () => {
+    it("wraps records in a code block", () => {
+        const report = formatLogReport([record(LogLevel.INFO, "main", "hello")])
+        expect(report.split("\n")).toEqual([
+            "```text",
+            "1970-01-01T00:00:00.000Z [INFO] main -- hello",
+            "```",
+        ])
+    })
+})
+
+describe("LogView", () => {
+    let containerEl: HTMLElement
+    let sink: MemorySink
+
+    beforeEach(() => {
+        containerEl = document.body.createDiv()
+        sink = createSink()
+        clearNotices()
+    })
+
+    afterEach(() => {
+        containerEl.detach()
+    })
+
+    it("lists the buffered records", () => {
+        const viewEl = new LogView({ sink }).display(containerEl)
+
+        expect(messages(viewEl)).toEqual(["loaded", "slow migration", "render failed"])
+        expect(viewEl.querySelectorAll(".obskit-log-error")).toHaveLength(1)
+    })
+
+    it("applies the level, logger and search filters", async () => {
+        const viewEl = new LogView({ sink }).display(containerEl)
+
+        await simulateDropdown(findSetting(viewEl, "Level"), String(LogLevel.WARN))
+        expect(messages(viewEl)).toEqual(["slow migration", "render failed"])
+
+        await simulateDropdown(findSetting(viewEl, "Logger"), "settings")
+        expect(messages(viewEl)).toEqual(["render failed"])
+
+        await simulateDropdown(findSetting(viewEl, "Logger"), "")
+        await simulateText(findSetting(viewEl, "Search"), "migration")
+        expect(messages(viewEl)).toEqual(["slow migration"])
+    })
+
+    it("tails new records until paused", async () => {
+        const viewEl = new LogView({ sink }).display(containerEl)
+
+        sink.write(record(LogLevel.INFO, "main", "tailed"))
+        expect(messages(viewEl)).toContain("tailed")
+
+        await simulateToggle(findSetting(viewEl, "Follow"), false)
+        sink.write(record(LogLevel.INFO, "main", "paused"))
+        expect(messages(viewEl)).not.toContain("paused")
+    })
+
+    it("limits the number of records shown", () => {
+        const viewEl = new LogView({ sink, limit: 1 }).display(containerEl)
+        expect(messages(viewEl)).toEqual(["render failed"])
+    })
+
+    it("copies the filtered records to the clipboard", async () => {
+        let copied = ""
+        Object.defineProperty(navigator, "clipboard", {
+            value: { writeText: async (text: string) => void (copied = text) },
+            configurable: true,
+        })
+
+        const viewEl = new LogView({ sink, filter: { level: LogLevel.ERROR } }).display(containerEl)
+        await simulateClick(findSetting(viewEl, "Follow"), "Copy to clipboard")
+
+        expect(copied).toContain("render failed")
+        expect(copied).not.toContain("loaded")
+        expect(notices.map(n => n.message)).toEqual(["Copied 1 log entries"])
+    })
+
+    it("clears the buffer", async () => {
+        const viewEl = new LogView({ sink }).display(containerEl)
+        await simulateClick(findSetting(viewEl, "Follow"), "Clear")
+
+        expect(sink.records).toHaveLength(0)
+        expect(viewEl.querySelector(".obskit-log-empty")).not.toBeNull()
+    })
+})
+
+describe("LogViewModal", () => {
+    it("shows the log view until closed", () => {
+        const modal = new LogViewModal(new App(), { sink: createSink() })
+
+        modal.open()
+        expect(modal.contentEl.querySelectorAll(".obskit-log-entry")).toHaveLength(3)
+
+        modal.close()
+        expect(modal.contentEl.childElementCount).toBe(0)
+    })
+
+    it("opens from the show logs command", () => {
+        const plugin = createMockPlugin()
+        addShowLogsCommand(plugin, { sink: createSink() })
+
+        plugin.commands.get("show-logs")?.callback?.()
+
+        expect(openModals[0]).toBeInstanceOf(LogViewModal)
+        openModals[0]?.close()
+    })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "@jest/globals"
+import { deletePath, getPath, hasPath, Path, PathOfType, pathsOverlap, setPath } from "../src/paths"
+
+describe("paths", () => {
+    it("reads nested values", () => {
+        const obj = { a: { b: { c: 1 } } }
+        expect(getPath(obj, "a.b.c")).toBe(1)
+        expect(getPath(obj, "a.x.c")).toBeUndefined()
+        expect(getPath(obj, "")).toBe(obj)
+    })
+
+    it("checks for existing paths", () => {
+        const obj = { a: { b: undefined } }
+        expect(hasPath(obj, "a.b")).toBe(true)
+        expect(hasPath(obj, "a.c")).toBe(false)
+    })
+
+    it("creates intermediate objects when setting", () => {
+        const obj: Record<string, unknown> = { a: 5 }
+        setPath(obj, "a.b.c", 1)
+        expect(obj).toEqual({ a: { b: { c: 1 } } })
+    })
+
+    it("deletes nested values", () => {
+        const obj: Record<string, unknown> = { a: { b: 1, c: 2 } }
+        expect(deletePath(obj, "a.b")).toBe(true)
+        expect(deletePath(obj, "a.x")).toBe(false)
+        expect(obj).toEqual({ a: { c: 2 } })
+    })
+
+    it("detects overlapping paths", () => {
+        expect(pathsOverlap("a.b", "a")).toBe(true)
+        expect(pathsOverlap("a", "a.b")).toBe(true)
+        expect(pathsOverlap("a.b", "a.bc")).toBe(false)
+    })
+})
+
+// type-level checks; these fail `tsc -p tsconfig.eslint.json` rather than jest
+type Equals<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false
+
+describe("Path", () => {
+    interface Settings {
+        [key: string]: unknown
+        name: string
+        nested: { color: string; size: number }
+        levels: Record<string, number>
+    }
+
+    it("includes only declared keys", () => {
+        const exact: Equals<
+            Path<Settings>,
+            "name" | "nested" | "nested.color" | "nested.size" | "levels"
+        > = true
+
+        expect(exact).toBe(true)
+    })
+
+    it("rejects unknown paths", () => {
+        // @ts-expect-error -- not a declared key
+        const extra: Path<Settings> = "extra"
+        // @ts-expect-error -- not a declared nested key
+        const typo: Path<Settings> = "nested.typo"
+
+        expect([extra, typo]).toEqual(["extra", "nested.typo"])
+    })
+})
+
+describe("PathOfType", () => {
+    interface Settings {
+        enabled: boolean
+        name: string
+        nested: { color: string; size: number; visible: boolean }
+    }
+
+    it("includes only paths holding the given type", () => {
+        const strings: Equals<PathOfType<Settings, string>, "name" | "nested.color"> = true
+        const numbers: Equals<PathOfType<Settings, number>, "nested.size"> = true
+        const booleans: Equals<PathOfType<Settings, boolean>, "enabled" | "nested.visible"> = true
+
+        expect([strings, numbers, booleans]).toEqual([true, true, true])
+    })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "@jest/globals"
+import { ProfileSet } from "../src/profiles"
+
+describe("ProfileSet", () => {
+    it("starts empty with no active profile", () => {
+        const profiles = new ProfileSet()
+        expect(profiles.isEmpty).toBe(true)
+        expect(profiles.active).toBeNull()
+    })
+
+    it("creates, duplicates and activates profiles", () => {
+        const profiles = new ProfileSet()
+        profiles.create("Writing", { font: 14 })
+        profiles.duplicate("Writing", "Presentation")
+        profiles.activate("Presentation")
+
+        expect(profiles.names).toEqual(["Writing", "Presentation"])
+        expect(profiles.active).toBe("Presentation")
+        expect(profiles.overrides("Presentation")).toEqual({ font: 14 })
+        expect(profiles.overrides("Presentation")).not.toBe(profiles.overrides("Writing"))
+    })
+
+    it("renames profiles in place and keeps them active", () => {
+        const profiles = new ProfileSet()
+        profiles.create("a")
+        profiles.create("b")
+        profiles.activate("a")
+        profiles.rename("a", "c")
+
+        expect(profiles.names).toEqual(["c", "b"])
+        expect(profiles.active).toBe("c")
+    })
+
+    it("falls back to the base settings when the active profile is deleted", () => {
+        const profiles = new ProfileSet()
+        profiles.create("a")
+        profiles.activate("a")
+        profiles.delete("a")
+
+        expect(profiles.active).toBeNull()
+        expect(profiles.isEmpty).toBe(true)
+    })
+
+    it("rejects duplicate, empty and missing names", () => {
+        const profiles = new ProfileSet()
+        profiles.create("a")
+
+        expect(() => profiles.create("a")).toThrow("already exists")
+        expect(() => profiles.create("  ")).toThrow("cannot be empty")
+        expect(() => profiles.activate("missing")).toThrow("No profile named")
+    })
+
+    it("round-trips through JSON and ignores malformed data", () => {
+        const profiles = new ProfileSet()
+        profiles.create("a", { x: 1 })
+        profiles.activate("a")
+
+        expect(ProfileSet.parse(profiles.toJSON()).toJSON()).toEqual(profiles.toJSON())
+        expect(ProfileSet.parse({ active: "b", profiles: { a: 5 } }).toJSON()).toEqual({
+            active: null,
+            profiles: {},
+        })
+        expect(ProfileSet.parse("nope").isEmpty).toBe(true)
+    })
+})
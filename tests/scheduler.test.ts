@@ -0,0 +1,90 @@
+import { describe, it, expect } from "@jest/globals"
+import { SaveScheduler } from "../src/scheduler"
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+describe("SaveScheduler", () => {
+    it("writes immediately without a delay", async () => {
+        let writes = 0
+        const scheduler = new SaveScheduler(async () => {
+            writes++
+        })
+        await scheduler.schedule()
+        expect(writes).toBe(1)
+    })
+
+    it("coalesces requests within the delay", async () => {
+        let writes = 0
+        const scheduler = new SaveScheduler(async () => {
+            writes++
+        }, 20)
+        await Promise.all([scheduler.schedule(), scheduler.schedule(), scheduler.schedule()])
+        expect(writes).toBe(1)
+    })
+
+    it("never overlaps writes", async () => {
+        let active = 0
+        let maxActive = 0
+        let writes = 0
+        const scheduler = new SaveScheduler(async () => {
+            active++
+            maxActive = Math.max(maxActive, active)
+            await sleep(10)
+            writes++
+            active--
+        })
+
+        const first = scheduler.schedule()
+        const second = scheduler.schedule()
+        const third = scheduler.schedule()
+        await Promise.all([first, second, third])
+
+        expect(maxActive).toBe(1)
+        expect(writes).toBe(2)
+    })
+
+    it("writes the latest state last", async () => {
+        let state = 0
+        const written: number[] = []
+        const scheduler = new SaveScheduler(async () => {
+            const value = state
+            await sleep(5)
+            written.push(value)
+        })
+
+        state = 1
+        const first = scheduler.schedule()
+        state = 2
+        const second = scheduler.schedule()
+        state = 3
+        await Promise.all([first, second, scheduler.schedule()])
+
+        expect(written[written.length - 1]).toBe(3)
+    })
+
+    it("flushes a debounced request immediately", async () => {
+        let writes = 0
+        const scheduler = new SaveScheduler(async () => {
+            writes++
+        }, 10000)
+
+        const saved = scheduler.schedule()
+        expect(scheduler.pending).toBe(true)
+
+        await scheduler.flush()
+        await saved
+
+        expect(writes).toBe(1)
+        expect(scheduler.pending).toBe(false)
+    })
+
+    it("rejects waiting callers when the write fails", async () => {
+        const scheduler = new SaveScheduler(async () => {
+            throw new Error("disk full")
+        })
+        await expect(scheduler.schedule()).rejects.toThrow("disk full")
+        expect(scheduler.pending).toBe(false)
+    })
+})
@@ -0,0 +1,216 @@
+/**
+ * @jest-environment jsdom
+ */
+import { describe, it, expect, afterEach, beforeEach } from "@jest/globals"
+import { PluginConfig } from "../src/config"
+import { buildSettingsPages, SettingsSchema } from "../src/schema"
+import { SettingsTabPage, ToggleSetting } from "../src/settings"
+import {
+    createMockPlugin,
+    findSetting,
+    findSettings,
+    simulateDropdown,
+    simulateSlider,
+    simulateText,
+    simulateToggle,
+} from "../src/testing"
+
+interface Settings {
+    [key: string]: unknown
+    enabled: boolean
+    name: string
+    notes: string
+    appearance: { size: number; theme: string }
+}
+
+const DEFAULTS: Settings = {
+    enabled: false,
+    name: "default",
+    notes: "",
+    appearance: { size: 10, theme: "light" },
+}
+
+class AboutPage extends SettingsTabPage {
+    constructor() {
+        super("About")
+    }
+
+    display(containerEl: HTMLElement): void {
+        containerEl.createDiv({ text: "About this plugin" })
+    }
+}
+
+class ExperimentalSetting extends ToggleSetting {
+    public enabled = false
+
+    constructor() {
+        super({ name: "Experimental", description: "Try new features." })
+    }
+
+    get value(): boolean {
+        return this.enabled
+    }
+
+    set value(val: boolean) {
+        this.enabled = val
+    }
+
+    get default(): boolean {
+        return false
+    }
+}
+
+describe("settings schema", () => {
+    let plugin: ReturnType<typeof createMockPlugin>
+    let config: PluginConfig<Settings>
+    let experimental: ExperimentalSetting
+    let about: AboutPage
+    let containerEl: HTMLElement
+
+    function render(index: number): HTMLElement {
+        const schema: SettingsSchema<Settings> = [
+            {
+                name: "General",
+                settings: [
+                    { type: "toggle", path: "enabled", name: "Enabled" },
+                    { type: "text", path: "name", name: "Name", description: "Your name." },
+                    { type: "textarea", path: "notes", name: "Notes", placeholder: "Anything" },
+                    experimental,
+                    el => el.createEl("h3", { text: "Appearance" }),
+                    {
+                        type: "slider",
+                        path: "appearance.size",
+                        name: "Size",
+                        min: 0,
+                        max: 50,
+                        step: 5,
+                    },
+                    {
+                        type: "dropdown",
+                        path: "appearance.theme",
+                        name: "Theme",
+                        options: [
+                            { value: "light", label: "Light" },
+                            { value: "dark", label: "Dark" },
+                        ],
+                    },
+                ],
+            },
+            about,
+        ]
+
+        const pages = buildSettingsPages(config, schema)
+        pages[index]!.display(containerEl)
+        return containerEl
+    }
+
+    beforeEach(async () => {
+        plugin = createMockPlugin()
+        config = new PluginConfig<Settings>({ defaults: DEFAULTS })
+        await config.load(plugin)
+
+        experimental = new ExperimentalSetting()
+        about = new AboutPage()
+        containerEl = document.createElement("div")
+    })
+
+    afterEach(() => {
+        plugin.unload()
+    })
+
+    it("builds a page for each schema entry", () => {
+        const pages = buildSettingsPages(config, [{ name: "General", settings: [] }, about])
+
+        expect(pages.map(page => page.name)).toEqual(["General", "About"])
+        expect(pages[1]).toBe(about)
+    })
+
+    it("renders fields, custom settings and functions in order", () => {
+        render(0)
+
+        expect(findSettings(containerEl).map(s => s.name)).toEqual([
+            "Enabled",
+            "Name",
+            "Notes",
+            "Experimental",
+            "Size",
+            "Theme",
+        ])
+        expect(containerEl.querySelector("h3")?.textContent).toBe("Appearance")
+        expect(findSetting(containerEl, "Name").description).toBe("Your name.")
+    })
+
+    it("shows current values and limits", async () => {
+        await config.set("appearance.size", 25)
+        render(0)
+
+        expect(findSetting(containerEl, "Size").controlEl.querySelector("input")).toMatchObject({
+            value: "25",
+            min: "0",
+            max: "50",
+            step: "5",
+        })
+    })
+
+    it("uses the default value as the placeholder", () => {
+        render(0)
+
+        const name = findSetting(containerEl, "Name").controlEl.querySelector("input")
+        const notes = findSetting(containerEl, "Notes").controlEl.querySelector("textarea")
+
+        expect(name?.placeholder).toBe("default")
+        expect(notes?.placeholder).toBe("Anything")
+    })
+
+    it("writes changes to the config and saves them", async () => {
+        render(0)
+
+        await simulateToggle(findSetting(containerEl, "Enabled"), true)
+        await simulateText(findSetting(containerEl, "Name"), "custom")
+        await simulateSlider(findSetting(containerEl, "Size"), 35)
+        await simulateDropdown(findSetting(containerEl, "Theme"), "dark")
+
+        expect(config.get("enabled")).toBe(true)
+        expect(config.get("name")).toBe("custom")
+        expect(config.get("appearance")).toEqual({ size: 35, theme: "dark" })
+        expect(plugin.savedData).toMatchObject({
+            enabled: true,
+            name: "custom",
+            appearance: { size: 35, theme: "dark" },
+        })
+    })
+
+    it("leaves custom settings to manage their own values", async () => {
+        render(0)
+
+        await simulateToggle(findSetting(containerEl, "Experimental"), true)
+
+        expect(experimental.enabled).toBe(true)
+        expect(config.get("enabled")).toBe(false)
+    })
+
+    it("only binds fields to settings of the matching type", () => {
+        // type-level check; fails `tsc -p tsconfig.eslint.json` rather than jest
+        const schema: SettingsSchema<Settings> = [
+            {
+                name: "Invalid",
+                settings: [
+                    // @ts-expect-error -- a toggle needs a boolean setting
+                    { type: "toggle", path: "name", name: "Name" },
+                    // @ts-expect-error -- a slider needs a numeric setting
+                    { type: "slider", path: "appearance.theme", name: "Theme", min: 0, max: 1 },
+                    // @ts-expect-error -- a text input needs a string setting
+                    { type: "text", path: "appearance.size", name: "Size" },
+                ],
+            },
+        ]
+
+        expect(schema).toHaveLength(1)
+    })
+
+    it("renders existing pages unchanged", () => {
+        render(1)
+
+        expect(containerEl.textContent).toBe("About this plugin")
+    })
+})
@@ -0,0 +1,307 @@
+/**
+ * @jest-environment jsdom
+ */
+import { describe, it, expect, beforeEach } from "@jest/globals"
+import { App, Plugin } from "obsidian"
+import { PluginConfig } from "../src/config"
+import {
+    DropdownSetting,
+    PluginSettingsTab,
+    SecretSetting,
+    SettingsTabPage,
+    SettingsTransferSetting,
+    SliderSetting,
+    TextInputSetting,
+    ToggleSetting,
+} from "../src/settings"
+import {
+    clearNotices,
+    createMockPlugin,
+    findSetting,
+    findSettings,
+    notices,
+    simulateClick,
+    simulateDropdown,
+    simulateSlider,
+    simulateText,
+    simulateToggle,
+} from "../src/testing"
+
+interface Values {
+    enabled: boolean
+    size: number
+    name: string
+    theme: string
+    token: string
+}
+
+function createValues(): Values {
+    return { enabled: false, size: 10, name: "", theme: "light", token: "" }
+}
+
+class EnabledSetting extends ToggleSetting {
+    constructor(private values: Values) {
+        super({ name: "Enabled", description: "Turn it on." })
+    }
+
+    get value(): boolean {
+        return this.values.enabled
+    }
+
+    set value(val: boolean) {
+        this.values.enabled = val
+    }
+
+    get default(): boolean {
+        return false
+    }
+}
+
+class SizeSetting extends SliderSetting {
+    constructor(private values: Values) {
+        super({ name: "Size", description: "How big." })
+    }
+
+    get value(): number {
+        return this.values.size
+    }
+
+    set value(val: number) {
+        this.values.size = val
+    }
+
+    get default(): number {
+        return 10
+    }
+
+    get minimum(): number {
+        return 0
+    }
+
+    get maximum(): number {
+        return 100
+    }
+
+    get step(): number {
+        return 5
+    }
+}
+
+class NameSetting extends TextInputSetting {
+    constructor(private values: Values) {
+        super({ name: "Name", description: "Who." })
+    }
+
+    get value(): string {
+        return this.values.name
+    }
+
+    set value(val: string) {
+        this.values.name = val
+    }
+
+    get default(): string {
+        return "anonymous"
+    }
+}
+
+class ThemeSetting extends DropdownSetting<string> {
+    constructor(private values: Values) {
+        super({ name: "Theme", description: "Colors." })
+    }
+
+    get value(): string {
+        return this.values.theme
+    }
+
+    set value(val: string) {
+        this.values.theme = val
+    }
+
+    get default(): string {
+        return "light"
+    }
+
+    get options(): { key: string; label: string; value: string }[] {
+        return [
+            { key: "light", label: "Light", value: "light" },
+            { key: "dark", label: "Dark", value: "dark" },
+        ]
+    }
+}
+
+class TokenSetting extends SecretSetting {
+    constructor(private values: Values) {
+        super({ name: "Token", description: "Secret." })
+    }
+
+    get value(): string {
+        return this.values.token
+    }
+
+    set value(val: string) {
+        this.values.token = val
+    }
+}
+
+describe("setting components", () => {
+    let containerEl: HTMLElement
+    let values: Values
+
+    beforeEach(() => {
+        containerEl = document.createElement("div")
+        values = createValues()
+    })
+
+    it("renders the name, description and current value", () => {
+        values.enabled = true
+        const setting = new EnabledSetting(values).display(containerEl)
+
+        expect(setting.nameEl.textContent).toBe("Enabled")
+        expect(setting.descEl.textContent).toBe("Turn it on.")
+        expect(containerEl.querySelector(".checkbox-container.is-enabled")).not.toBeNull()
+    })
+
+    it("updates values and notifies on change", async () => {
+        const changes: unknown[] = []
+
+        new EnabledSetting(values).onChange(value => changes.push(value)).display(containerEl)
+        new SizeSetting(values).onChange(value => changes.push(value)).display(containerEl)
+        new NameSetting(values).onChange(value => changes.push(value)).display(containerEl)
+        new ThemeSetting(values).onChange(value => changes.push(value)).display(containerEl)
+
+        await simulateToggle(findSetting(containerEl, "Enabled"), true)
+        await simulateSlider(findSetting(containerEl, "Size"), 25)
+        await simulateText(findSetting(containerEl, "Name"), "Ada")
+        await simulateDropdown(findSetting(containerEl, "Theme"), "dark")
+
+        expect(values).toEqual({ enabled: true, size: 25, name: "Ada", theme: "dark", token: "" })
+        expect(changes).toEqual([true, 25, "Ada", "dark"])
+    })
+
+    it("uses the default as the text placeholder", () => {
+        new NameSetting(values).display(containerEl)
+
+        expect(containerEl.querySelector("input")?.placeholder).toBe("anonymous")
+    })
+
+    it("rejects unknown dropdown options", async () => {
+        const setting = new ThemeSetting(values).display(containerEl)
+
+        await expect(simulateDropdown(setting, "neon")).rejects.toThrow("No dropdown option")
+    })
+
+    it("masks secrets until revealed", async () => {
+        values.token = "s3cret"
+        const setting = new TokenSetting(values).display(containerEl)
+        const input = containerEl.querySelector("input")!
+
+        expect(input.type).toBe("password")
+        expect(input.value).toBe("s3cret")
+
+        await simulateClick(setting, "Show")
+        expect(input.type).toBe("text")
+
+        await simulateClick(setting, "Hide")
+        expect(input.type).toBe("password")
+    })
+})
+
+class Page extends SettingsTabPage {
+    activations = 0
+
+    constructor(
+        name: string,
+        private render: (containerEl: HTMLElement) => void
+    ) {
+        super(name)
+    }
+
+    display(containerEl: HTMLElement): void {
+        this.render(containerEl)
+    }
+
+    onActivate(): void {
+        this.activations++
+    }
+}
+
+class TestTab extends PluginSettingsTab {
+    constructor(app: App, plugin: Plugin, pages: SettingsTabPage[]) {
+        super(app, plugin)
+        this.addTabs(pages)
+    }
+}
+
+describe("PluginSettingsTab", () => {
+    function createTab(values: Values) {
+        const plugin = createMockPlugin()
+        const general = new Page("General", el => new EnabledSetting(values).display(el))
+        const advanced = new Page("Advanced Options", el => new SizeSetting(values).display(el))
+
+        return { tab: new TestTab(plugin.app, plugin, [general, advanced]), general, advanced }
+    }
+
+    it("shows the first page by default", () => {
+        const { tab, general } = createTab(createValues())
+        tab.display()
+
+        expect(findSettings(tab.containerEl).map(s => s.name)).toEqual(["Enabled"])
+        expect(general.isActive).toBe(true)
+        expect(general.activations).toBe(1)
+    })
+
+    it("switches pages when a tab button is clicked", () => {
+        const { tab, general, advanced } = createTab(createValues())
+        tab.display()
+
+        const buttons = tab.containerEl.querySelectorAll<HTMLElement>(".obskit-settings-tab-button")
+        buttons[1]!.click()
+
+        expect(findSettings(tab.containerEl).map(s => s.name)).toEqual(["Size"])
+        expect(general.isActive).toBe(false)
+        expect(advanced.isActive).toBe(true)
+        expect(buttons[1]!.classList.contains("obskit-settings-tab-button-active")).toBe(true)
+    })
+
+    it("re-renders the active page on refresh", () => {
+        const values = createValues()
+        const { tab } = createTab(values)
+        tab.display()
+
+        values.enabled = true
+        tab.refresh()
+
+        expect(tab.containerEl.querySelectorAll(".setting-item")).toHaveLength(1)
+        expect(tab.containerEl.querySelector(".checkbox-container.is-enabled")).not.toBeNull()
+    })
+
+    it("derives page ids from names", () => {
+        expect(new Page("Advanced Options", () => {}).id).toBe("advanced-options")
+    })
+})
+
+describe("SettingsTransferSetting", () => {
+    beforeEach(() => {
+        clearNotices()
+    })
+
+    it("reports clipboard failures", async () => {
+        Object.defineProperty(navigator, "clipboard", {
+            value: { writeText: async () => Promise.reject(new Error("not focused")) },
+            configurable: true,
+        })
+
+        const plugin = createMockPlugin()
+        const config = new PluginConfig<{ [key: string]: unknown; name: string }>({
+            defaults: { name: "" },
+        })
+        await config.load(plugin)
+
+        const containerEl = document.createElement("div")
+        new SettingsTransferSetting({ plugin, config }).display(containerEl)
+        await simulateClick(findSetting(containerEl, "Export & Import"), "Copy")
+
+        expect(notices.map(n => n.message)).toEqual(["Failed to copy settings: not focused"])
+    })
+})
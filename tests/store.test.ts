@@ -0,0 +1,128 @@
+import { describe, it, expect } from "@jest/globals"
+import { SettingsStore, SettingsChange } from "../src/store"
+
+interface StoreSettings {
+    [key: string]: unknown
+    name: string
+    rendering: { flow: { spacing: number; wrap: boolean }; color: string }
+    tags: string[]
+}
+
+function createSettings(): StoreSettings {
+    return {
+        name: "default",
+        rendering: { flow: { spacing: 4, wrap: true }, color: "blue" },
+        tags: ["a"],
+    }
+}
+
+describe("SettingsStore", () => {
+    it("reads values by path", () => {
+        const store = new SettingsStore(createSettings())
+        expect(store.get("rendering.flow.spacing")).toBe(4)
+        expect(store.get("rendering.flow")).toEqual({ spacing: 4, wrap: true })
+    })
+
+    it("notifies path subscribers with new and old values", () => {
+        const store = new SettingsStore(createSettings())
+        const calls: [number, number][] = []
+        store.subscribe("rendering.flow.spacing", (newValue, oldValue) => {
+            calls.push([newValue, oldValue])
+        })
+        store.set("rendering.flow.spacing", 8)
+        expect(calls).toEqual([[8, 4]])
+    })
+
+    it("notifies ancestor subscribers of nested changes", () => {
+        const store = new SettingsStore(createSettings())
+        const calls: unknown[] = []
+        store.subscribe("rendering.flow", value => calls.push(value))
+        store.set("rendering.flow.wrap", false)
+        expect(calls).toEqual([{ spacing: 4, wrap: false }])
+    })
+
+    it("does not notify subscribers of unrelated paths", () => {
+        const store = new SettingsStore(createSettings())
+        let called = false
+        store.subscribe("rendering.color", () => {
+            called = true
+        })
+        store.set("name", "changed")
+        expect(called).toBe(false)
+    })
+
+    it("detects in-place mutations on update", () => {
+        const store = new SettingsStore(createSettings())
+        const changes: SettingsChange[][] = []
+        store.onAnyChange(c => changes.push(c))
+
+        store.value.name = "mutated"
+        store.value.tags.push("b")
+        store.update()
+
+        expect(changes).toEqual([
+            [
+                { path: "name", oldValue: "default", newValue: "mutated" },
+                { path: "tags", oldValue: ["a"], newValue: ["a", "b"] },
+            ],
+        ])
+    })
+
+    it("replaces the live object on update", () => {
+        const store = new SettingsStore(createSettings())
+        const next = { ...createSettings(), name: "next" }
+        const changes = store.update(next)
+        expect(store.value).toBe(next)
+        expect(changes.map(c => c.path)).toEqual(["name"])
+    })
+
+    it("does not notify when nothing changed", () => {
+        const store = new SettingsStore(createSettings())
+        let called = false
+        store.onAnyChange(() => {
+            called = true
+        })
+        store.update(createSettings())
+        expect(called).toBe(false)
+    })
+
+    it("stops notifying after unsubscribe", () => {
+        const store = new SettingsStore(createSettings())
+        let count = 0
+        const unsubscribe = store.subscribe("name", () => count++)
+        store.set("name", "one")
+        unsubscribe()
+        store.set("name", "two")
+        expect(count).toBe(1)
+    })
+
+    it("registers unsubscription with a component", () => {
+        const store = new SettingsStore(createSettings())
+        const cleanups: (() => void)[] = []
+        const component = { register: (cb: () => void) => cleanups.push(cb) }
+        let count = 0
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        store.subscribe("name", () => count++, component as any)
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        store.onAnyChange(() => count++, component as any)
+        expect(cleanups).toHaveLength(2)
+
+        cleanups.forEach(cb => cb())
+        store.set("name", "changed")
+        expect(count).toBe(0)
+    })
+
+    it("keeps notifying when a listener throws", () => {
+        const store = new SettingsStore(createSettings())
+        let called = false
+        store.subscribe("name", () => {
+            throw new Error("boom")
+        })
+        store.onAnyChange(() => {
+            called = true
+        })
+        store.set("name", "changed")
+        expect(called).toBe(true)
+    })
+})
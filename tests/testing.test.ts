@@ -0,0 +1,125 @@
+/**
+ * @jest-environment jsdom
+ */
+import { describe, it, expect, beforeEach } from "@jest/globals"
+import { Setting } from "obsidian"
+import { addSwitchProfileCommand } from "../src/commands"
+import { PluginConfig } from "../src/config"
+import { ProfileSetting } from "../src/settings"
+import {
+    clearNotices,
+    createMockPlugin,
+    findSetting,
+    notices,
+    openModals,
+    simulateClick,
+    simulateDropdown,
+    simulateToggle,
+} from "../src/testing"
+
+interface Settings {
+    [key: string]: unknown
+    enabled: boolean
+}
+
+describe("createMockPlugin", () => {
+    it("stores data in memory", async () => {
+        const plugin = createMockPlugin({ data: { a: 1 } })
+
+        expect(await plugin.loadData()).toEqual({ a: 1 })
+
+        await plugin.saveData({ a: 2 })
+        expect(plugin.savedData).toEqual({ a: 2 })
+        expect(plugin.saveCount).toBe(1)
+    })
+
+    it("runs registered cleanups when unloaded", () => {
+        const plugin = createMockPlugin()
+        let cleaned = false
+        plugin.register(() => (cleaned = true))
+
+        plugin.unload()
+
+        expect(cleaned).toBe(true)
+    })
+
+    it("works with PluginConfig", async () => {
+        const plugin = createMockPlugin({ data: { enabled: true } })
+        const config = new PluginConfig<Settings>({ defaults: { enabled: false } })
+
+        const settings = await config.load(plugin)
+
+        expect(settings.enabled).toBe(true)
+        expect(plugin.savedData).toEqual({ enabled: true })
+    })
+})
+
+describe("simulated controls", () => {
+    let containerEl: HTMLElement
+
+    beforeEach(() => {
+        containerEl = document.createElement("div")
+    })
+
+    it("reports missing settings and controls", async () => {
+        const setting = new Setting(containerEl).setName("Plain")
+
+        expect(() => findSetting(containerEl, "Missing")).toThrow("No setting named: Missing")
+        await expect(simulateToggle(setting, true)).rejects.toThrow("Setting has no toggle: Plain")
+        await expect(simulateClick(setting, "Go")).rejects.toThrow("no button 'Go'")
+    })
+
+    it("refuses to click disabled buttons", async () => {
+        let clicked = false
+        const setting = new Setting(containerEl).addButton(button => {
+            button.setButtonText("Go").setDisabled(true)
+            button.onClick(() => (clicked = true))
+        })
+
+        await expect(simulateClick(setting, "Go")).rejects.toThrow("disabled")
+        expect(clicked).toBe(false)
+    })
+})
+
+describe("profile switching", () => {
+    beforeEach(() => {
+        clearNotices()
+    })
+
+    async function setup() {
+        const plugin = createMockPlugin()
+        const config = new PluginConfig<Settings>({ defaults: { enabled: false } })
+        await config.load(plugin)
+        await config.createProfile("Work")
+        return { plugin, config }
+    }
+
+    it("switches profiles from the settings dropdown", async () => {
+        const { plugin, config } = await setup()
+        const containerEl = document.createElement("div")
+        let changes = 0
+
+        const setting = new ProfileSetting({
+            app: plugin.app,
+            config,
+            onChange: () => changes++,
+        }).display(containerEl)
+
+        await simulateDropdown(setting, "Work")
+
+        expect(config.activeProfile).toBe("Work")
+        expect(changes).toBe(1)
+    })
+
+    it("registers a command that opens the profile picker", async () => {
+        const { plugin, config } = await setup()
+
+        addSwitchProfileCommand(plugin, config)
+        plugin.commands.get("switch-profile")?.callback?.()
+
+        const modal = openModals[openModals.length - 1]
+        expect(modal?.isOpen).toBe(true)
+        modal?.close()
+        expect(notices).toHaveLength(0)
+    })
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "@jest/globals"
+import { validateSettings } from "../src/validation"
+
+const DEFAULTS = {
+    name: "default",
+    count: 10,
+    tags: ["a"],
+    nested: { enabled: true, size: 12 },
+    optional: null,
+}
+
+describe("validateSettings", () => {
+    it("accepts values matching the default types", () => {
+        const settings = structuredClone(DEFAULTS)
+        const report = validateSettings(DEFAULTS, settings)
+        expect(report).toEqual({ valid: true, issues: [] })
+    })
+
+    it("replaces values with the wrong type", () => {
+        const settings: Record<string, unknown> = { ...structuredClone(DEFAULTS), count: "abc" }
+        const report = validateSettings(DEFAULTS, settings)
+        expect(settings.count).toBe(10)
+        expect(report.valid).toBe(false)
+        expect(report.issues).toEqual([
+            {
+                path: "count",
+                value: "abc",
+                replacement: 10,
+                reason: "expected number, found string",
+            },
+        ])
+    })
+
+    it("rejects NaN for numeric defaults", () => {
+        const settings: Record<string, unknown> = { ...structuredClone(DEFAULTS), count: NaN }
+        validateSettings(DEFAULTS, settings)
+        expect(settings.count).toBe(10)
+    })
+
+    it("reports nested paths", () => {
+        const settings: Record<string, unknown> = {
+            ...structuredClone(DEFAULTS),
+            nested: { enabled: null, size: 14 },
+        }
+        const report = validateSettings(DEFAULTS, settings)
+        expect(settings.nested).toEqual({ enabled: true, size: 14 })
+        expect(report.issues.map(issue => issue.path)).toEqual(["nested.enabled"])
+    })
+
+    it("replaces a nested group that is not an object", () => {
+        const settings: Record<string, unknown> = { ...structuredClone(DEFAULTS), nested: [] }
+        validateSettings(DEFAULTS, settings)
+        expect(settings.nested).toEqual({ enabled: true, size: 12 })
+    })
+
+    it("accepts any value when the default is null", () => {
+        const settings: Record<string, unknown> = { ...structuredClone(DEFAULTS), optional: 5 }
+        expect(validateSettings(DEFAULTS, settings).valid).toBe(true)
+    })
+
+    it("ignores keys that are not in defaults", () => {
+        const settings: Record<string, unknown> = { ...structuredClone(DEFAULTS), extra: 5 }
+        expect(validateSettings(DEFAULTS, settings).valid).toBe(true)
+        expect(settings.extra).toBe(5)
+    })
+
+    it("prefers custom validators over inferred types", () => {
+        const settings: Record<string, unknown> = { ...structuredClone(DEFAULTS), count: -1 }
+        const report = validateSettings(DEFAULTS, settings, {
+            validators: { count: value => typeof value === "number" && value >= 0 },
+        })
+        expect(settings.count).toBe(10)
+        expect(report.issues[0]?.reason).toBe("rejected by validator")
+    })
+
+    it("skips inferred checks when disabled", () => {
+        const settings: Record<string, unknown> = { ...structuredClone(DEFAULTS), count: "abc" }
+        const report = validateSettings(DEFAULTS, settings, { inferTypes: false })
+        expect(report.valid).toBe(true)
+        expect(settings.count).toBe("abc")
+    })
+
+    it("does not share replacement values with defaults", () => {
+        const settings: Record<string, unknown> = { ...structuredClone(DEFAULTS), tags: "x" }
+        validateSettings(DEFAULTS, settings)
+        expect(settings.tags).toEqual(["a"])
+        expect(settings.tags).not.toBe(DEFAULTS.tags)
+    })
+})